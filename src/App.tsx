@@ -7,6 +7,8 @@ import { WizardProvider } from "./contexts/WizardContext";
 import { useAuth } from "@/hooks/useAuth";
 import Index from "./pages/Index";
 import MySubmissions from "./pages/MySubmissions";
+import QuickQuote from "./pages/QuickQuote";
+import BatchScreening from "./pages/BatchScreening";
 import AdminDashboard from "./pages/AdminDashboard";
 import TeamManagement from "./pages/TeamManagement";
 import Profile from "./pages/Profile";
@@ -129,6 +131,22 @@ const App = () => (
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/quick-quote"
+              element={
+                <ProtectedRoute>
+                  <QuickQuote />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/batch-screening"
+              element={
+                <ProtectedRoute>
+                  <BatchScreening />
+                </ProtectedRoute>
+              }
+            />
             <Route
               path="/profile"
               element={
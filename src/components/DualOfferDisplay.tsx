@@ -1,11 +1,18 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Button } from '@/components/ui/button';
 import { CheckCircle2, MapPin, Loader2, Send, Building2, Percent, ArrowRight } from 'lucide-react';
-import { formatCurrency, checkDualProductEligibility } from '@/lib/heaCalculator';
+import { formatCurrency, formatStateOverride, formatBorrowerAdjustment, checkDualProductEligibility } from '@/lib/heaCalculator';
+import { calculateSaleLeasebackOffer } from '@/lib/slCalculator';
+import { getActiveGuidelines, buildBorrowerProfile } from '@/lib/productRules';
 import { toast } from 'sonner';
 import { triggerConfetti } from '@/components/ui/confetti';
 import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
 import { PersonalDetailsData } from './WizardStep2';
+import { SaleLeasebackOfferCard } from './SaleLeasebackOfferCard';
+import { Lien, getPayoffAtClosingBalance } from '@/lib/liens';
+import { ProductComparisonTable } from './ProductComparisonTable';
+import { EligibilityTracePanel } from './EligibilityTracePanel';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
@@ -13,7 +20,9 @@ import { Separator } from '@/components/ui/separator';
 interface DualOfferDisplayProps {
   address: string;
   homeValue: number;
+  // Total of every lien (see liens)
   mortgageBalance: number;
+  liens?: Lien[];
   state: string;
   propertyType: string;
   ownershipType: string;
@@ -50,6 +59,7 @@ export function DualOfferDisplay({
   address,
   homeValue,
   mortgageBalance,
+  liens,
   state,
   propertyType,
   ownershipType,
@@ -64,9 +74,23 @@ export function DualOfferDisplay({
 }: DualOfferDisplayProps) {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [submitted, setSubmitted] = useState(false);
+  // Saved but rejected by server-side underwriting - resubmitting would only duplicate it
+  const [savedForReview, setSavedForReview] = useState(false);
 
   // Calculate eligibility for both products using the dual-product checker
-  const dualEligibility = checkDualProductEligibility(homeValue, mortgageBalance, state, propertyType, ownershipType);
+  const payoffAtClosing = getPayoffAtClosingBalance(liens || []);
+  const borrower = useMemo(() => buildBorrowerProfile({
+    creditScores: personalDetails?.ownerCreditScores,
+    isCreditScoreLow,
+    isEmployed,
+    hasLatePayments
+  }), [personalDetails, isCreditScoreLow, isEmployed, hasLatePayments]);
+  const dualEligibility = checkDualProductEligibility(homeValue, mortgageBalance, state, propertyType, ownershipType, undefined, payoffAtClosing, borrower);
+  const borrowerAdjustments = [
+    ...dualEligibility.heiBorrowerAdjustments.map(adjustment => `HEI - ${formatBorrowerAdjustment(adjustment)}`),
+    ...dualEligibility.slBorrowerAdjustments.map(adjustment => `Sale-Leaseback - ${formatBorrowerAdjustment(adjustment)}`)
+  ];
+  const slOffer = calculateSaleLeasebackOffer(homeValue, mortgageBalance, state, propertyType, ownershipType, payoffAtClosing, borrower);
 
   // Trigger confetti if at least one product is eligible
   useEffect(() => {
@@ -93,15 +117,20 @@ export function DualOfferDisplay({
           property_address: address,
           home_value: homeValue,
           mortgage_balance: mortgageBalance,
+          liens: (liens || []) as unknown as Json,
           owner_names: ownerNames || [],
           property_type: propertyType,
           state: state,
+          ownership_type: ownershipType,
+          // Offer as quoted here - submit-deal recomputes it and persists its own result
           sl_eligible: dualEligibility.slEligible,
           sl_offer_amount: dualEligibility.slEligible ? dualEligibility.slOfferAmount : null,
-          sl_ineligibility_reasons: dualEligibility.slEligible ? [] : dualEligibility.combinedReasons,
+          sl_ineligibility_reasons: dualEligibility.slReasons,
           hei_eligible: dualEligibility.heiEligible,
           hei_max_investment: dualEligibility.heiEligible ? dualEligibility.heiMaxInvestment : null,
-          hei_ineligibility_reasons: dualEligibility.heiEligible ? [] : dualEligibility.combinedReasons,
+          hei_ineligibility_reasons: dualEligibility.heiReasons,
+          // Guideline version the offer was underwritten against (0 = built-in defaults)
+          guideline_version: getActiveGuidelines().version,
           // Personal Details
           owner_emails: personalDetails?.ownerEmails || [],
           owner_phones: personalDetails?.ownerPhones || [],
@@ -110,6 +139,10 @@ export function DualOfferDisplay({
           money_reasons: personalDetails?.moneyReasons || [],
           helpful_context: personalDetails?.helpfulContext || null,
           money_amount: personalDetails?.moneyAmount || null,
+          // Raw borrower answers the server underwrites from
+          is_credit_score_low: isCreditScoreLow ?? null,
+          is_employed: isEmployed ?? null,
+          has_late_payments: hasLatePayments ?? null,
         })
         .select('id')
         .single();
@@ -120,16 +153,10 @@ export function DualOfferDisplay({
         return;
       }
 
-      // Call edge function to create deal in EquityAdvance and get tracking link
+      // Call edge function to re-underwrite the submission, create the deal in EquityAdvance and get tracking link
       const { data: partnerDealResult, error: partnerDealError } = await supabase.functions.invoke('submit-deal', {
         body: {
           submission_id: submission.id,
-          property_address: address,
-          home_value: homeValue,
-          mortgage_balance: mortgageBalance,
-          owner_names: ownerNames || [],
-          property_type: propertyType,
-          state: state,
           sl_eligible: dualEligibility.slEligible,
           sl_offer_amount: dualEligibility.slEligible ? dualEligibility.slOfferAmount : null,
           hei_eligible: dualEligibility.heiEligible,
@@ -137,19 +164,22 @@ export function DualOfferDisplay({
         }
       });
 
-      if (partnerDealError) {
+      if (partnerDealError?.context?.status === 422) {
+        // Server-side underwriting found no qualifying product - nothing was sent to EquityAdvance
+        toast.error('This property did not qualify when the offer was verified. The submission was saved for review.');
+        setSavedForReview(true);
+        return;
+      } else if (partnerDealError) {
         console.error('Error creating partner deal:', partnerDealError);
         // Still show success since local submission was created
         toast.warning('Deal submitted locally, but partner sync failed. StayFrank team will follow up.');
       } else if (partnerDealResult) {
-        // Update local submission with EquityAdvance deal ID and tracking link
-        await supabase
-          .from('submissions')
-          .update({
-            equityadvance_deal_id: partnerDealResult.deal_id,
-            everflow_tracking_link: partnerDealResult.tracking_link,
-          })
-          .eq('id', submission.id);
+        // submit-deal stores the EquityAdvance deal ID and tracking link on the submission
+        const underwriting = partnerDealResult.underwriting;
+        if (underwriting?.status === 'flagged') {
+          const amount = Math.max(underwriting.sl_offer_amount || 0, underwriting.hei_max_investment || 0);
+          toast.warning(`The offer was adjusted when verified. The submitted offer is up to ${formatCurrency(amount)}.`);
+        }
       }
 
       setSubmitted(true);
@@ -231,6 +261,32 @@ export function DualOfferDisplay({
             <p className="text-sm text-muted-foreground">
               Based on {formatCurrency(homeValue)} home value
             </p>
+            {dualEligibility.payoffAmount > 0 && (
+              <div className="mx-auto max-w-xs text-sm space-y-1 pt-2">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Gross funding</span>
+                  <span className="font-medium">{formatCurrency(dualEligibility.higherAmount)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Paid off at closing</span>
+                  <span className="font-medium">-{formatCurrency(dualEligibility.payoffAmount)}</span>
+                </div>
+                <div className="flex justify-between border-t pt-1">
+                  <span className="font-semibold">Net cash to homeowner</span>
+                  <span className="font-bold text-emerald-600">
+                    {formatCurrency(Math.max(0, dualEligibility.higherAmount - dualEligibility.payoffAmount))}
+                  </span>
+                </div>
+              </div>
+            )}
+            {dualEligibility.heiEligible && dualEligibility.heiStateOverride && (
+              <p className="text-xs text-muted-foreground">
+                {getStateName(state)} HEI terms applied: {formatStateOverride(dualEligibility.heiStateOverride)}
+              </p>
+            )}
+            {borrowerAdjustments.map(adjustment => (
+              <p key={adjustment} className="text-xs text-muted-foreground">{adjustment}</p>
+            ))}
           </div>
 
           <Separator className="max-w-xl mx-auto opacity-50" />
@@ -273,6 +329,33 @@ export function DualOfferDisplay({
         </CardContent>
       </Card>
 
+      {/* How each offer was sized */}
+      <div className="max-w-3xl mx-auto">
+        <EligibilityTracePanel traces={[dualEligibility.heiTrace, dualEligibility.slTrace]} />
+      </div>
+
+      {/* Side-by-side comparison when both products qualify */}
+      {dualEligibility.heiEligible && dualEligibility.slEligible && (
+        <div className="max-w-3xl mx-auto">
+          <ProductComparisonTable
+            homeValue={homeValue}
+            mortgageBalance={mortgageBalance}
+            state={state}
+            propertyType={propertyType}
+            ownershipType={ownershipType}
+            payoffAtClosing={payoffAtClosing}
+            borrower={borrower}
+          />
+        </div>
+      )}
+
+      {/* Sale-Leaseback Offer Details */}
+      {dualEligibility.slEligible && (
+        <div className="max-w-3xl mx-auto">
+          <SaleLeasebackOfferCard offer={slOffer} />
+        </div>
+      )}
+
       {/* Action Area */}
       <div className="flex flex-col sm:flex-row gap-4 pt-4 max-w-3xl mx-auto">
         <Button
@@ -286,13 +369,15 @@ export function DualOfferDisplay({
         <Button
           onClick={handleSubmitToStayFrank}
           className="flex-[2] h-12 text-base font-semibold bg-emerald-600 hover:bg-emerald-700 text-white shadow-emerald-500/20 shadow-lg transition-all hover:scale-[1.01]"
-          disabled={isSubmitting || !dualEligibility.eitherEligible}
+          disabled={isSubmitting || savedForReview || !dualEligibility.eitherEligible}
         >
           {isSubmitting ? (
             <>
               <Loader2 className="h-5 w-5 mr-2 animate-spin" />
               Processing...
             </>
+          ) : savedForReview ? (
+            'Saved for StayFrank Review'
           ) : (
             <>
               Submit Deal to StayFrank
@@ -0,0 +1,99 @@
+import { useState } from 'react';
+import { Calculator, CheckCircle2, ChevronDown, XCircle } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { formatCurrency } from '@/lib/heaCalculator';
+import { EligibilityTrace, formatCashCap, formatRuleCheck } from '@/lib/eligibilityTrace';
+import { PRODUCT_NAMES } from '@/lib/ineligibilityReasons';
+
+interface EligibilityTracePanelProps {
+  traces: EligibilityTrace[];
+}
+
+/**
+ * "How we calculated this": every rule evaluated per product and the cap that sized the offer
+ */
+export function EligibilityTracePanel({ traces }: EligibilityTracePanelProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <Card className="shadow-sm">
+        <CollapsibleTrigger asChild>
+          <CardHeader className="pb-2 cursor-pointer">
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-sm font-semibold text-muted-foreground uppercase tracking-wide flex items-center gap-2">
+                <Calculator className="w-4 h-4" />
+                How we calculated this
+              </CardTitle>
+              <ChevronDown className={`w-4 h-4 text-muted-foreground transition-transform ${open ? 'rotate-180' : ''}`} />
+            </div>
+          </CardHeader>
+        </CollapsibleTrigger>
+        <CollapsibleContent>
+          <CardContent className="space-y-6 text-left">
+            {traces.map(trace => (
+              <div key={trace.productId} className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <p className="text-sm font-semibold">{PRODUCT_NAMES[trace.productId]}</p>
+                  {trace.termSources.length > 0 && (
+                    <span className="text-xs text-muted-foreground">Terms adjusted for: {trace.termSources.join(', ')}</span>
+                  )}
+                </div>
+
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Rule</TableHead>
+                      <TableHead>This Property</TableHead>
+                      <TableHead>Guideline</TableHead>
+                      <TableHead className="w-[40px]"></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {trace.checks.map(check => {
+                      const { label, actual, limit } = formatRuleCheck(check);
+                      return (
+                        <TableRow key={check.rule}>
+                          <TableCell className="font-medium">{label}</TableCell>
+                          <TableCell>{actual}</TableCell>
+                          <TableCell className="text-muted-foreground max-w-[240px] truncate" title={limit}>{limit}</TableCell>
+                          <TableCell>
+                            {check.passed
+                              ? <CheckCircle2 className="w-4 h-4 text-emerald-500" />
+                              : <XCircle className="w-4 h-4 text-destructive" />}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+
+                <div className="space-y-1">
+                  <p className="text-xs text-muted-foreground font-medium uppercase">Offer Amount: Lowest Of</p>
+                  {trace.caps.map(cap => {
+                    const { label, formula } = formatCashCap(cap);
+                    return (
+                      <div key={cap.cap} className={`flex items-center justify-between text-sm ${cap.binding ? 'font-semibold' : 'text-muted-foreground'}`}>
+                        <span className="flex items-center gap-2">
+                          {label}
+                          {cap.binding && <Badge variant="secondary" className="text-[10px]">Binding</Badge>}
+                        </span>
+                        <span>
+                          <span className="text-xs text-muted-foreground mr-2">{formula}</span>
+                          {formatCurrency(Math.max(0, cap.amount))}
+                        </span>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </CollapsibleContent>
+      </Card>
+    </Collapsible>
+  );
+}
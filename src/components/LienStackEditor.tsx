@@ -0,0 +1,141 @@
+import { Plus, Trash2, Layers } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { formatCurrency, formatPercentage } from '@/lib/heaCalculator';
+import { Lien, LienType, LIEN_TYPE_LABELS, createLien, calculateCLTV, getPayoffAtClosingBalance } from '@/lib/liens';
+
+interface LienStackEditorProps {
+  homeValue: number;
+  // Full stack, including the first mortgage (edited by the mortgage balance slider)
+  liens: Lien[];
+  // Only liens after the first mortgage are editable here
+  onChange: (additionalLiens: Lien[]) => void;
+  onFirstMortgagePayoffChange: (payoffAtClosing: boolean) => void;
+}
+
+const ADDITIONAL_LIEN_TYPES: LienType[] = ['second_mortgage', 'heloc', 'tax_lien', 'judgment', 'other'];
+
+/**
+ * Second mortgages, HELOCs, tax liens and judgments on top of the first mortgage
+ */
+export function LienStackEditor({ homeValue, liens, onChange, onFirstMortgagePayoffChange }: LienStackEditorProps) {
+  const firstMortgage = liens.find(lien => lien.type === 'first_mortgage');
+  const additionalLiens = liens.filter(lien => lien.type !== 'first_mortgage');
+  const cltv = calculateCLTV(homeValue, liens);
+  const payoffAtClosing = getPayoffAtClosingBalance(liens);
+  const postClosingCLTV = calculateCLTV(homeValue, liens.filter(lien => !lien.payoffAtClosing));
+
+  const updateLien = (id: string, patch: Partial<Lien>) => {
+    onChange(additionalLiens.map(lien => (lien.id === id ? { ...lien, ...patch } : lien)));
+  };
+
+  const addLien = () => {
+    const nextPosition = Math.max(1, ...liens.map(lien => lien.position)) + 1;
+    onChange([...additionalLiens, createLien('heloc', 0, nextPosition)]);
+  };
+
+  const removeLien = (id: string) => {
+    onChange(additionalLiens.filter(lien => lien.id !== id));
+  };
+
+  return (
+    <Card className="shadow-sm">
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-sm font-semibold text-muted-foreground uppercase tracking-wide flex items-center gap-2">
+            <Layers className="w-4 h-4" />
+            Liens
+          </CardTitle>
+          <span className="text-xs text-muted-foreground">
+            CLTV (all liens): <span className="font-bold text-foreground">{formatPercentage(cltv)}</span>
+            {payoffAtClosing > 0 && (
+              <> · After payoffs: <span className="font-bold text-foreground">{formatPercentage(postClosingCLTV)}</span></>
+            )}
+          </span>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {firstMortgage && firstMortgage.balance > 0 && (
+          <div className="flex items-center justify-between text-sm">
+            <span>
+              {LIEN_TYPE_LABELS.first_mortgage}: <span className="font-medium">{formatCurrency(firstMortgage.balance)}</span>
+            </span>
+            <label className="flex items-center gap-2 text-xs text-muted-foreground whitespace-nowrap">
+              <Switch checked={firstMortgage.payoffAtClosing} onCheckedChange={onFirstMortgagePayoffChange} />
+              Pay off at closing
+            </label>
+          </div>
+        )}
+
+        {additionalLiens.length === 0 && (
+          <p className="text-sm text-muted-foreground">No second mortgage, HELOC or other liens.</p>
+        )}
+
+        {additionalLiens.map(lien => (
+          <div key={lien.id} className="space-y-1">
+            <div className="grid grid-cols-2 md:grid-cols-[1.5fr_1.5fr_0.7fr_auto_auto] gap-3 items-center">
+              <Select value={lien.type} onValueChange={(value) => updateLien(lien.id, { type: value as LienType })}>
+                <SelectTrigger className="bg-background h-10 text-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ADDITIONAL_LIEN_TYPES.map(type => (
+                    <SelectItem key={type} value={type}>{LIEN_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="relative">
+                <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground text-sm">$</span>
+                <Input
+                  type="text"
+                  value={formatCurrency(lien.balance).replace('$', '')}
+                  onChange={(e) => updateLien(lien.id, { balance: parseInt(e.target.value.replace(/[^0-9]/g, '')) || 0 })}
+                  className="h-10 pl-6"
+                />
+              </div>
+              <Input
+                type="number"
+                min={2}
+                value={lien.position}
+                onChange={(e) => updateLien(lien.id, { position: parseInt(e.target.value) || 2 })}
+                className="h-10"
+                title="Lien position"
+              />
+              <label className="flex items-center gap-2 text-xs text-muted-foreground whitespace-nowrap">
+                <Switch
+                  checked={lien.payoffAtClosing}
+                  onCheckedChange={(checked) => updateLien(lien.id, { payoffAtClosing: checked })}
+                />
+                Pay off at closing
+              </label>
+              <Button variant="ghost" size="sm" onClick={() => removeLien(lien.id)}>
+                <Trash2 className="h-4 w-4 text-destructive" />
+              </Button>
+            </div>
+            {(lien.recordedDate || lien.lender) && (
+              <p className="text-xs text-muted-foreground">
+                From public records{lien.lender && <> · {lien.lender}</>} · estimated current balance
+                {lien.balanceBasis ? <> ({lien.balanceBasis})</> : lien.recordedDate && <> · recorded {lien.recordedDate}</>}
+              </p>
+            )}
+          </div>
+        ))}
+
+        <div className="flex items-center justify-between">
+          <Button variant="outline" size="sm" onClick={addLien}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Lien
+          </Button>
+          {payoffAtClosing > 0 && (
+            <span className="text-xs text-muted-foreground">
+              Paid from proceeds at closing: <span className="font-bold text-foreground">{formatCurrency(payoffAtClosing)}</span>
+            </span>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,95 @@
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, ChartLegend, ChartLegendContent, type ChartConfig } from '@/components/ui/chart';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { formatCurrency, formatPercentage, type HEAScheduleRow } from '@/lib/heaCalculator';
+
+interface PayoffScheduleProps {
+  schedule: HEAScheduleRow[];
+  selectedYear: number;
+  onSelectYear?: (year: number) => void;
+}
+
+const chartConfig = {
+  payoff: {
+    label: 'HEA Payoff',
+    color: 'hsl(var(--accent))',
+  },
+  equityRemaining: {
+    label: 'Equity Remaining',
+    color: 'hsl(var(--success))',
+  },
+} satisfies ChartConfig;
+
+const formatAxisCurrency = (value: number) => {
+  if (Math.abs(value) >= 1000000) return `$${(value / 1000000).toFixed(1)}M`;
+  return `$${Math.round(value / 1000)}K`;
+};
+
+/**
+ * Year-by-year HEA settlement schedule (chart + table)
+ */
+export function PayoffSchedule({ schedule, selectedYear, onSelectYear }: PayoffScheduleProps) {
+  return (
+    <div className="space-y-4">
+      <ChartContainer config={chartConfig} className="h-[240px] w-full aspect-auto">
+        <LineChart data={schedule} margin={{ left: 8, right: 8, top: 8 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="year" tickLine={false} axisLine={false} tickMargin={8} />
+          <YAxis tickLine={false} axisLine={false} width={56} tickFormatter={formatAxisCurrency} />
+          <ReferenceLine x={selectedYear} stroke="hsl(var(--muted-foreground))" strokeDasharray="4 4" />
+          <ChartTooltip
+            content={
+              <ChartTooltipContent
+                labelFormatter={(_, payload) => `Year ${payload?.[0]?.payload?.year}`}
+                formatter={(value, name) => (
+                  <div className="flex w-full justify-between gap-4">
+                    <span className="text-muted-foreground">{chartConfig[name as keyof typeof chartConfig]?.label}</span>
+                    <span className="font-mono font-medium">{formatCurrency(Number(value))}</span>
+                  </div>
+                )}
+              />
+            }
+          />
+          <ChartLegend content={<ChartLegendContent />} />
+          <Line dataKey="payoff" type="monotone" stroke="var(--color-payoff)" strokeWidth={2} dot={false} />
+          <Line dataKey="equityRemaining" type="monotone" stroke="var(--color-equityRemaining)" strokeWidth={2} dot={false} />
+        </LineChart>
+      </ChartContainer>
+
+      <div className="max-h-[320px] overflow-y-auto rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Year</TableHead>
+              <TableHead className="text-right">Home Value</TableHead>
+              <TableHead className="text-right">Payoff</TableHead>
+              <TableHead className="text-right">Effective APR</TableHead>
+              <TableHead className="text-right">Equity Remaining</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {schedule.map(row => (
+              <TableRow
+                key={row.year}
+                onClick={() => onSelectYear?.(row.year)}
+                className={`${onSelectYear ? 'cursor-pointer' : ''} ${row.year === selectedYear ? 'bg-accent/10 font-medium' : ''}`}
+              >
+                <TableCell>{row.year}</TableCell>
+                <TableCell className="text-right">{formatCurrency(row.homeValue)}</TableCell>
+                <TableCell className="text-right">
+                  <span className="inline-flex items-center gap-2">
+                    {row.isCapped && <Badge variant="secondary" className="text-[10px]">Capped</Badge>}
+                    {formatCurrency(row.payoff)}
+                  </span>
+                </TableCell>
+                <TableCell className="text-right">{formatPercentage(row.apr)}</TableCell>
+                <TableCell className={`text-right ${row.equityRemaining < 0 ? 'text-destructive' : ''}`}>{formatCurrency(row.equityRemaining)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
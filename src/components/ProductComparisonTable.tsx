@@ -0,0 +1,109 @@
+import { useState, useMemo } from 'react';
+import { Scale, Star } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Slider } from '@/components/ui/slider';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { formatCurrency, formatPercentage } from '@/lib/heaCalculator';
+import { compareProducts, ProductComparisonColumn } from '@/lib/productComparison';
+import type { BorrowerProfile } from '@/lib/productRules';
+
+interface ProductComparisonTableProps {
+  homeValue: number;
+  mortgageBalance: number;
+  state: string;
+  propertyType: string;
+  ownershipType: string;
+  payoffAtClosing?: number;
+  borrower?: BorrowerProfile;
+}
+
+const DEFAULT_EXIT_YEAR = 5;
+const ASSUMED_HPA_RATE = 0.03;
+
+/**
+ * HEI vs. Sale-Leaseback side by side (only rendered when both products qualify)
+ */
+export function ProductComparisonTable({ homeValue, mortgageBalance, state, propertyType, ownershipType, payoffAtClosing, borrower }: ProductComparisonTableProps) {
+  const [exitYear, setExitYear] = useState(DEFAULT_EXIT_YEAR);
+
+  const comparison = useMemo(() => {
+    return compareProducts({ homeValue, mortgageBalance, state, propertyType, ownershipType, exitYear, hpaRate: ASSUMED_HPA_RATE, payoffAtClosing, borrower });
+  }, [homeValue, mortgageBalance, state, propertyType, ownershipType, exitYear, payoffAtClosing, borrower]);
+
+  if (!comparison) return null;
+
+  const columns: ProductComparisonColumn[] = [comparison.hei, comparison.sl];
+  const rows: { label: string; render: (column: ProductComparisonColumn) => React.ReactNode }[] = [
+    { label: 'Cash Today', render: (c) => <span className="font-semibold">{formatCurrency(c.cashToday)}</span> },
+    { label: 'Monthly Obligation', render: (c) => (c.monthlyObligation > 0 ? `${formatCurrency(c.monthlyObligation)} rent` : 'None') },
+    { label: `Cost if Exiting in Year ${exitYear}`, render: (c) => formatCurrency(c.costAtExit) },
+    { label: 'Cost per $1 Received', render: (c) => (Number.isFinite(c.costPerDollar) ? `$${c.costPerDollar.toFixed(2)}` : '—') },
+    { label: 'Ownership', render: (c) => (c.retainsOwnership ? 'Homeowner keeps title' : 'Buyer takes title') },
+    { label: 'Appreciation Kept', render: (c) => formatPercentage(c.homeownerAppreciationShare * 100, 0) },
+    {
+      label: 'Notes',
+      render: (c) => (
+        <ul className="text-xs text-muted-foreground space-y-0.5">
+          {c.notes.map(note => <li key={note}>{note}</li>)}
+        </ul>
+      )
+    },
+  ];
+
+  return (
+    <Card className="shadow-sm">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Scale className="w-5 h-5 text-primary" />
+          Compare Options
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2 max-w-sm">
+          <div className="flex items-center justify-between text-xs">
+            <span className="font-semibold uppercase tracking-wider text-muted-foreground">Exit Year</span>
+            <span className="font-bold">Year {exitYear}</span>
+          </div>
+          <Slider value={[exitYear]} onValueChange={(value) => setExitYear(value[0])} min={1} max={10} step={1} />
+          <p className="text-[10px] text-muted-foreground">
+            Assumes {formatPercentage(ASSUMED_HPA_RATE * 100)} annual home appreciation
+          </p>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead></TableHead>
+              {columns.map(column => (
+                <TableHead key={column.productId}>
+                  <span className="inline-flex items-center gap-2">
+                    {column.productId === 'hei' ? 'Home Equity Investment' : 'Sale-Leaseback'}
+                    {comparison.recommended === column.productId && (
+                      <Badge className="bg-emerald-100 text-emerald-700 hover:bg-emerald-100">
+                        <Star className="w-3 h-3 mr-1" />
+                        Recommended
+                      </Badge>
+                    )}
+                  </span>
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map(row => (
+              <TableRow key={row.label}>
+                <TableCell className="font-medium text-muted-foreground">{row.label}</TableCell>
+                {columns.map(column => (
+                  <TableCell key={column.productId}>{row.render(column)}</TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <p className="text-xs text-muted-foreground">{comparison.recommendationReason}.</p>
+      </CardContent>
+    </Card>
+  );
+}
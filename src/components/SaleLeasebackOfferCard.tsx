@@ -0,0 +1,78 @@
+import { Home, KeyRound } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Separator } from '@/components/ui/separator';
+import { formatCurrency, formatPercentage, type SaleLeasebackOffer } from '@/lib/slCalculator';
+
+interface SaleLeasebackOfferCardProps {
+  offer: SaleLeasebackOffer;
+}
+
+/**
+ * Sell & Stay offer breakdown: proceeds waterfall, rent and repurchase prices
+ */
+export function SaleLeasebackOfferCard({ offer }: SaleLeasebackOfferCardProps) {
+  const lineItems = [
+    { label: 'Purchase Price', value: offer.purchasePrice },
+    { label: 'Estimated Closing Costs', value: -offer.closingCosts },
+    { label: 'Estimated Transfer Taxes', value: -offer.transferTaxes },
+    { label: 'Mortgage & Lien Payoffs', value: -offer.mortgagePayoff },
+  ];
+
+  return (
+    <Card className="border-2 border-blue-500/20 shadow-sm">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Home className="w-5 h-5 text-blue-600" />
+          Sale-Leaseback Offer
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {/* Proceeds */}
+          <div className="space-y-2 text-sm">
+            {lineItems.map(item => (
+              <div key={item.label} className="flex justify-between">
+                <span className="text-muted-foreground">{item.label}</span>
+                <span className="font-medium">
+                  {item.value < 0 ? `-${formatCurrency(-item.value)}` : formatCurrency(item.value)}
+                </span>
+              </div>
+            ))}
+            <Separator />
+            <div className="flex justify-between text-base">
+              <span className="font-semibold">Net Cash to Seller</span>
+              <span className="font-bold text-emerald-600">{formatCurrency(offer.netCashToSeller)}</span>
+            </div>
+          </div>
+
+          {/* Rent */}
+          <div className="rounded-xl bg-secondary/50 border p-4 flex flex-col items-center justify-center text-center gap-1">
+            <p className="text-xs text-muted-foreground font-medium uppercase">Estimated Monthly Rent</p>
+            <p className="text-3xl font-bold text-foreground">{formatCurrency(offer.monthlyRent)}</p>
+            <p className="text-xs text-muted-foreground">
+              {formatPercentage(offer.capRate * 100)} cap rate on purchase price ({formatCurrency(offer.annualRent)} / yr)
+            </p>
+          </div>
+        </div>
+
+        {/* Buyback */}
+        {offer.buybackSchedule.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-xs text-muted-foreground font-medium uppercase flex items-center gap-1">
+              <KeyRound className="w-3 h-3" />
+              Buyback Price by Year
+            </p>
+            <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+              {offer.buybackSchedule.map(option => (
+                <div key={option.year} className="rounded-lg border p-2 text-center">
+                  <p className="text-[10px] text-muted-foreground uppercase">Year {option.year}</p>
+                  <p className="text-sm font-semibold">{formatCurrency(option.price)}</p>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
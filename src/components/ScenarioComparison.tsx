@@ -0,0 +1,99 @@
+import { useState, useMemo } from 'react';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { formatCurrency, formatPercentage } from '@/lib/heaCalculator';
+import { DEFAULT_HEA_SCENARIOS, HEAScenario, parseHPAPath, runHEAScenarios } from '@/lib/heaScenarios';
+
+interface ScenarioComparisonProps {
+  investment: number;
+  homeValue: number;
+  mortgageBalance: number;
+  settlementYear: number;
+  state?: string;
+}
+
+const describePath = (hpaPath: number[]) => {
+  const rates = hpaPath.map(rate => formatPercentage(rate * 100));
+  if (rates.length === 1) return `${rates[0]} / yr`;
+  return `${rates.join(', ')}, then ${rates[rates.length - 1]} / yr`;
+};
+
+// e.g. [1, 2, 3, 7] -> "Years 1-3, 7"
+const describeYears = (years: number[]) => {
+  if (years.length === 0) return 'Never';
+  const ranges: string[] = [];
+  let start = years[0];
+  for (let i = 1; i <= years.length; i++) {
+    if (i === years.length || years[i] !== years[i - 1] + 1) {
+      const end = years[i - 1];
+      ranges.push(start === end ? `${start}` : `${start}-${end}`);
+      start = years[i];
+    }
+  }
+  return `${years.length === 1 ? 'Year' : 'Years'} ${ranges.join(', ')}`;
+};
+
+/**
+ * Bear / base / bull (and optional custom) HPA paths side by side for one settlement year
+ */
+export function ScenarioComparison({ investment, homeValue, mortgageBalance, settlementYear, state }: ScenarioComparisonProps) {
+  const [customPathInput, setCustomPathInput] = useState('');
+  const customPath = useMemo(() => parseHPAPath(customPathInput), [customPathInput]);
+
+  const analysis = useMemo(() => {
+    const scenarios: HEAScenario[] = customPath
+      ? [...DEFAULT_HEA_SCENARIOS, { id: 'custom', name: 'Custom', hpaPath: customPath }]
+      : DEFAULT_HEA_SCENARIOS;
+    return runHEAScenarios(investment, homeValue, settlementYear, scenarios, mortgageBalance, state);
+  }, [investment, homeValue, settlementYear, mortgageBalance, state, customPath]);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between text-xs">
+        <span className="font-semibold uppercase tracking-wider text-muted-foreground">Stress Test</span>
+        <span>
+          Year {settlementYear} payoff range:{' '}
+          <span className="font-bold">{formatCurrency(analysis.payoffRange.min)} – {formatCurrency(analysis.payoffRange.max)}</span>
+        </span>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Scenario</TableHead>
+            <TableHead>Annual HPA</TableHead>
+            <TableHead className="text-right">Home Value</TableHead>
+            <TableHead className="text-right">Payoff</TableHead>
+            <TableHead className="text-right">Effective APR</TableHead>
+            <TableHead className="text-right">Cost Cap Binds</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {analysis.results.map(({ scenario, settlement, capBindingYears }) => (
+            <TableRow key={scenario.id}>
+              <TableCell className="font-medium">{scenario.name}</TableCell>
+              <TableCell className="text-xs text-muted-foreground">{describePath(scenario.hpaPath)}</TableCell>
+              <TableCell className="text-right">{formatCurrency(settlement.homeValue)}</TableCell>
+              <TableCell className="text-right">{formatCurrency(settlement.payoff)}</TableCell>
+              <TableCell className="text-right">{formatPercentage(settlement.apr)}</TableCell>
+              <TableCell className="text-right">
+                {describeYears(capBindingYears)}
+                {settlement.isCapped && <span className="ml-1 text-accent font-medium">(capped)</span>}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <div className="space-y-1">
+        <Input
+          value={customPathInput}
+          onChange={(e) => setCustomPathInput(e.target.value)}
+          placeholder="Custom path, % per year (e.g. -8, -4, 0, 2, 3)"
+          className={customPathInput && !customPath ? 'border-destructive' : ''}
+        />
+        <p className="text-[10px] text-muted-foreground">The last rate repeats for every later year.</p>
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import { useState } from 'react';
 import { WizardStep1 } from './WizardStep1';
 import { DualOfferDisplay } from './DualOfferDisplay';
 import { UserMenu } from './UserMenu';
+import type { Lien } from '@/lib/liens';
 
 interface UnderwritingWizardProps {
   address: string;
@@ -12,6 +13,7 @@ interface PropertyData {
   homeValue: number;
   state: string;
   mortgageBalance: number;
+  liens: Lien[];
   maxInvestment: number;
   propertyType: string;
   ownershipType: string;
@@ -101,6 +103,7 @@ export function UnderwritingWizard({ address, onBack }: UnderwritingWizardProps)
             address={address}
             homeValue={propertyData.homeValue}
             mortgageBalance={propertyData.mortgageBalance}
+            liens={propertyData.liens}
             state={propertyData.state}
             propertyType={propertyData.propertyType}
             ownershipType={propertyData.ownershipType}
@@ -4,7 +4,7 @@ import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover
 import { Dialog, DialogContent } from "@/components/ui/dialog";
 import { AuthModal } from "@/components/AuthModal";
 import { Badge } from "@/components/ui/badge";
-import { User, LogOut, ChevronDown, UserCog, Shield } from "lucide-react";
+import { User, LogOut, ChevronDown, UserCog, Shield, Calculator, FileSpreadsheet } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 
 interface UserMenuProps {
@@ -375,6 +375,24 @@ export function UserMenu({ className, variant = 'default' }: UserMenuProps) {
                             <span className="text-sm text-gray-700">Profile Settings</span>
                         </button>
 
+                        <button
+                            type="button"
+                            className="w-full flex items-center gap-3 px-4 py-2.5 hover:bg-gray-50 transition-colors text-left"
+                            onClick={() => handleNavigation('/quick-quote')}
+                        >
+                            <Calculator className="w-4 h-4 text-gray-500" />
+                            <span className="text-sm text-gray-700">Quick Quote</span>
+                        </button>
+
+                        <button
+                            type="button"
+                            className="w-full flex items-center gap-3 px-4 py-2.5 hover:bg-gray-50 transition-colors text-left"
+                            onClick={() => handleNavigation('/batch-screening')}
+                        >
+                            <FileSpreadsheet className="w-4 h-4 text-gray-500" />
+                            <span className="text-sm text-gray-700">Batch Screening</span>
+                        </button>
+
                         {/* Admin Dashboard - only shown for admins */}
                         {isAdmin && (
                             <button
@@ -7,9 +7,22 @@ import { Slider } from '@/components/ui/slider';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
 import { CheckCircle2, XCircle, Loader2, MapPin, Building, User, AlertCircle, TrendingUp, X, DollarSign, Calendar, RefreshCw, Home, Percent, RotateCcw } from 'lucide-react';
-import { HEI_ELIGIBLE_STATES, INELIGIBLE_PROPERTY_TYPES, INELIGIBLE_OWNERSHIP_TYPES, validateProperty, formatCurrency, formatPercentage, calculateMaxInvestment, calculateHEACost, checkDualProductEligibility } from '@/lib/heaCalculator';
-import { lookupProperty, detectOwnershipType } from '@/lib/api/atom';
+import { validateProperty, formatCurrency, formatPercentage, calculateMaxInvestment, calculateHEACost, calculateHEASchedule, checkDualProductEligibility, formatBorrowerAdjustment, HEI_MIN_INVESTMENT } from '@/lib/heaCalculator';
+import { getProductRuleSets, isStateEligibleFor, isPropertyTypeEligibleFor, isOwnershipTypeEligibleFor, buildBorrowerProfile } from '@/lib/productRules';
+import { formatIneligibilityReasons } from '@/lib/ineligibilityReasons';
+import { detectOwnershipType } from '@/lib/api/atom';
+import { lookupProperty } from '@/lib/api/providers';
+import { detectOwnership } from '@/lib/ownerNames';
+import { useProductGuidelines } from '@/hooks/useProductGuidelines';
+import { PayoffSchedule } from './PayoffSchedule';
+import { LienStackEditor } from './LienStackEditor';
+import { EligibilityTracePanel } from './EligibilityTracePanel';
+import { getValuationWarnings, VALUE_SOURCE_LABELS, PropertyValuation } from '@/lib/valuation';
+import { estimateLienBalance, formatBalanceBasis, BalanceEstimate } from '@/lib/mortgageBalance';
+import { Lien, createLien, getTotalLienBalance, getPayoffAtClosingBalance, sortLiens } from '@/lib/liens';
+import { ScenarioComparison } from './ScenarioComparison';
 import { toast } from 'sonner';
+import { ALL_STATES, PROPERTY_TYPES, OWNERSHIP_TYPES } from '@/lib/propertyOptions';
 
 interface WizardStep1Props {
   address: string;
@@ -17,6 +30,7 @@ interface WizardStep1Props {
     homeValue: number;
     state: string;
     mortgageBalance: number;
+    liens: Lien[];
     maxInvestment: number;
     propertyType: string;
     ownershipType: string;
@@ -29,177 +43,11 @@ interface WizardStep1Props {
   onBack: () => void;
 }
 
-// All 50 states with full names and abbreviations
-const ALL_STATES: {
-  abbr: string;
-  name: string;
-}[] = [{
-  abbr: 'AL',
-  name: 'Alabama'
-}, {
-  abbr: 'AK',
-  name: 'Alaska'
-}, {
-  abbr: 'AZ',
-  name: 'Arizona'
-}, {
-  abbr: 'AR',
-  name: 'Arkansas'
-}, {
-  abbr: 'CA',
-  name: 'California'
-}, {
-  abbr: 'CO',
-  name: 'Colorado'
-}, {
-  abbr: 'CT',
-  name: 'Connecticut'
-}, {
-  abbr: 'DE',
-  name: 'Delaware'
-}, {
-  abbr: 'FL',
-  name: 'Florida'
-}, {
-  abbr: 'GA',
-  name: 'Georgia'
-}, {
-  abbr: 'HI',
-  name: 'Hawaii'
-}, {
-  abbr: 'ID',
-  name: 'Idaho'
-}, {
-  abbr: 'IL',
-  name: 'Illinois'
-}, {
-  abbr: 'IN',
-  name: 'Indiana'
-}, {
-  abbr: 'IA',
-  name: 'Iowa'
-}, {
-  abbr: 'KS',
-  name: 'Kansas'
-}, {
-  abbr: 'KY',
-  name: 'Kentucky'
-}, {
-  abbr: 'LA',
-  name: 'Louisiana'
-}, {
-  abbr: 'ME',
-  name: 'Maine'
-}, {
-  abbr: 'MD',
-  name: 'Maryland'
-}, {
-  abbr: 'MA',
-  name: 'Massachusetts'
-}, {
-  abbr: 'MI',
-  name: 'Michigan'
-}, {
-  abbr: 'MN',
-  name: 'Minnesota'
-}, {
-  abbr: 'MS',
-  name: 'Mississippi'
-}, {
-  abbr: 'MO',
-  name: 'Missouri'
-}, {
-  abbr: 'MT',
-  name: 'Montana'
-}, {
-  abbr: 'NE',
-  name: 'Nebraska'
-}, {
-  abbr: 'NV',
-  name: 'Nevada'
-}, {
-  abbr: 'NH',
-  name: 'New Hampshire'
-}, {
-  abbr: 'NJ',
-  name: 'New Jersey'
-}, {
-  abbr: 'NM',
-  name: 'New Mexico'
-}, {
-  abbr: 'NY',
-  name: 'New York'
-}, {
-  abbr: 'NC',
-  name: 'North Carolina'
-}, {
-  abbr: 'ND',
-  name: 'North Dakota'
-}, {
-  abbr: 'OH',
-  name: 'Ohio'
-}, {
-  abbr: 'OK',
-  name: 'Oklahoma'
-}, {
-  abbr: 'OR',
-  name: 'Oregon'
-}, {
-  abbr: 'PA',
-  name: 'Pennsylvania'
-}, {
-  abbr: 'RI',
-  name: 'Rhode Island'
-}, {
-  abbr: 'SC',
-  name: 'South Carolina'
-}, {
-  abbr: 'SD',
-  name: 'South Dakota'
-}, {
-  abbr: 'TN',
-  name: 'Tennessee'
-}, {
-  abbr: 'TX',
-  name: 'Texas'
-}, {
-  abbr: 'UT',
-  name: 'Utah'
-}, {
-  abbr: 'VT',
-  name: 'Vermont'
-}, {
-  abbr: 'VA',
-  name: 'Virginia'
-}, {
-  abbr: 'WA',
-  name: 'Washington'
-}, {
-  abbr: 'WV',
-  name: 'West Virginia'
-}, {
-  abbr: 'WI',
-  name: 'Wisconsin'
-}, {
-  abbr: 'WY',
-  name: 'Wyoming'
-}, {
-  abbr: 'DC',
-  name: 'District of Columbia'
-}];
-
-// Property types matching RentCast values
-const PROPERTY_TYPES = ['Single Family', 'Condo', 'Townhouse', 'Multi-Family', 'Manufactured', 'Apartment', 'Land'];
-const OWNERSHIP_TYPES = ['Personal', 'LLC', 'Corporation', 'Trust', 'Partnership'];
-
-// Sale-Leaseback eligible states (matches heaCalculator.ts)
-const SL_ELIGIBLE_STATES = ['AZ', 'NV', 'CA', 'CO', 'TX', 'GA', 'FL', 'TN', 'OH', 'IN', 'NC'];
-
 // Helper functions for eligibility
-// A state is eligible if it qualifies for either HEI or Sale-Leaseback
-const isStateEligible = (abbr: string) => HEI_ELIGIBLE_STATES.includes(abbr) || SL_ELIGIBLE_STATES.includes(abbr);
-const isPropertyTypeEligible = (type: string) => !INELIGIBLE_PROPERTY_TYPES.includes(type);
-const isOwnershipTypeEligible = (type: string) => !INELIGIBLE_OWNERSHIP_TYPES.includes(type);
+// A value is eligible if it qualifies for at least one product (HEI or Sale-Leaseback)
+const isStateEligible = (abbr: string) => getProductRuleSets().some(rules => isStateEligibleFor(rules, abbr));
+const isPropertyTypeEligible = (type: string) => getProductRuleSets().some(rules => isPropertyTypeEligibleFor(rules, type));
+const isOwnershipTypeEligible = (type: string) => getProductRuleSets().some(rules => isOwnershipTypeEligibleFor(rules, type));
 const getStateName = (abbr: string) => ALL_STATES.find(s => s.abbr === abbr)?.name || abbr;
 
 // CLTV color helper: green < 75%, yellow 75-79.9%, red >= 80%
@@ -229,8 +77,21 @@ export function WizardStep1({
   const [homeValue, setHomeValue] = useState(0);
   const [homeValueInput, setHomeValueInput] = useState(''); // Raw input for property value
   const [isHomeValueFocused, setIsHomeValueFocused] = useState(false);
+  // Source, range and confidence of the looked-up value
+  const [valuation, setValuation] = useState<PropertyValuation | null>(null);
   const [propertyOwner, setPropertyOwner] = useState('');
+  // When the property data was fetched from ATTOM, and whether it came from the lookup cache
+  const [lookupFetchedAt, setLookupFetchedAt] = useState<string | null>(null);
+  const [lookupFromCache, setLookupFromCache] = useState(false);
+  // Bumped by "Refresh" to re-run the lookup past the cache
+  const [refreshCount, setRefreshCount] = useState(0);
+  // Set once the officer confirms (or picks) the ownership type for a low-confidence owner read
+  const [ownershipConfirmed, setOwnershipConfirmed] = useState(false);
   const [mortgageBalance, setMortgageBalance] = useState(0);
+  // Amortized estimate the slider started from (null when no first mortgage was recorded)
+  const [mortgageEstimate, setMortgageEstimate] = useState<(BalanceEstimate & { basis: string }) | null>(null);
+  const [additionalLiens, setAdditionalLiens] = useState<Lien[]>([]);
+  const [payoffFirstMortgage, setPayoffFirstMortgage] = useState(false);
 
   // Qualifying Questions State
   const [isEmployed, setIsEmployed] = useState<boolean | null>(null);
@@ -244,18 +105,45 @@ export function WizardStep1({
   const [settlementYear, setSettlementYear] = useState(10);
   const [hpaRate, setHpaRate] = useState(3.0);
 
+  // Active underwriting guidelines (re-evaluates once the published version loads)
+  const { guidelines } = useProductGuidelines();
+
+  // Full lien stack - the slider edits the first mortgage, LienStackEditor the rest
+  const liens = useMemo(() => sortLiens([
+    { id: 'first-mortgage', type: 'first_mortgage', balance: mortgageBalance, position: 1, payoffAtClosing: payoffFirstMortgage },
+    ...additionalLiens
+  ]), [mortgageBalance, payoffFirstMortgage, additionalLiens]);
+  const totalLienBalance = getTotalLienBalance(liens);
+  // Payoff-at-closing mode: these debts are retired from the proceeds, so offers use what remains
+  const payoffAtClosing = getPayoffAtClosingBalance(liens);
+  const remainingLienBalance = totalLienBalance - payoffAtClosing;
+
   // CLTV calculations
-  const currentCLTV = homeValue > 0 ? mortgageBalance / homeValue * 100 : 0;
-  const maxInvestment = calculateMaxInvestment(homeValue, mortgageBalance);
+  const currentCLTV = homeValue > 0 ? totalLienBalance / homeValue * 100 : 0;
+
+  // Credit, employment and payment history answers adjust each product's terms
+  const borrower = useMemo(() => buildBorrowerProfile({ isCreditScoreLow, isEmployed, hasLatePayments }), [isCreditScoreLow, isEmployed, hasLatePayments]);
 
   // Dual-product eligibility check - allows progression if EITHER SL or HEI qualifies
   const dualEligibility = useMemo(() => {
     if (!state || !propertyType || !ownershipType) return null;
-    return checkDualProductEligibility(homeValue, mortgageBalance, state, propertyType, ownershipType);
-  }, [homeValue, mortgageBalance, state, propertyType, ownershipType]);
+    return checkDualProductEligibility(homeValue, totalLienBalance, state, propertyType, ownershipType, guidelines, payoffAtClosing, borrower);
+  }, [homeValue, totalLienBalance, state, propertyType, ownershipType, guidelines, payoffAtClosing, borrower]);
+
+  // Borrower adjustments can lower the HEI max, so prefer the eligibility result once it exists
+  const maxInvestment = dualEligibility ? dualEligibility.heiMaxInvestment : calculateMaxInvestment(homeValue, remainingLienBalance, state || undefined);
 
   const isFullyEligible = dualEligibility?.eitherEligible ?? false;
 
+  // Owners parsed from the ATTOM owner string, with how sure the entity classification is
+  const ownership = useMemo(() => detectOwnership(propertyOwner), [propertyOwner]);
+  const needsOwnershipReview = ownership.needsReview && !ownershipConfirmed;
+
+  const handleOwnershipTypeChange = (value: string) => {
+    setOwnershipType(value);
+    setOwnershipConfirmed(true);
+  };
+
   // Update funding amount when maxInvestment changes
   useEffect(() => {
     if (maxInvestment > 0) {
@@ -263,38 +151,71 @@ export function WizardStep1({
     }
   }, [maxInvestment]);
 
+  // Terms changed by the borrower's answers, labelled by product
+  const borrowerAdjustmentNotes = useMemo(() => {
+    if (!dualEligibility) return [];
+    return [
+      ...dualEligibility.heiBorrowerAdjustments.map(adjustment => `HEI - ${formatBorrowerAdjustment(adjustment)}`),
+      ...dualEligibility.slBorrowerAdjustments.map(adjustment => `Sale-Leaseback - ${formatBorrowerAdjustment(adjustment)}`)
+    ];
+  }, [dualEligibility]);
+
   // Combine all validation errors for display - only show when NEITHER product qualifies
   const displayErrors = useMemo(() => {
     if (!dualEligibility) return [];
-    return dualEligibility.combinedReasons;
+    return formatIneligibilityReasons(dualEligibility.combinedReasons);
   }, [dualEligibility]);
 
   // Payoff calculation
   const calculation = useMemo(() => {
-    return calculateHEACost(fundingAmount, homeValue, settlementYear, hpaRate / 100);
-  }, [fundingAmount, homeValue, settlementYear, hpaRate]);
+    return calculateHEACost(fundingAmount, homeValue, settlementYear, hpaRate / 100, state || undefined);
+  }, [fundingAmount, homeValue, settlementYear, hpaRate, state]);
+
+  // Payoff for every settlement year (1..30) at the same HPA rate
+  const schedule = useMemo(() => {
+    return calculateHEASchedule(fundingAmount, homeValue, hpaRate / 100, remainingLienBalance, state || undefined);
+  }, [fundingAmount, homeValue, hpaRate, remainingLienBalance, state]);
 
-  // Fetch property data from RentCast API
+  // Fetch property data from the configured provider(s) - see lib/api/providers
   useEffect(() => {
     const fetchPropertyData = async () => {
       try {
         setIsLoading(true);
         setApiError(null);
-        const data = await lookupProperty(address);
+        const data = await lookupProperty(address, { forceRefresh: refreshCount > 0 });
 
+        setLookupFetchedAt(data.fetchedAt ?? null);
+        setLookupFromCache(!!data.fromCache);
         setState(data.state);
         setPropertyType(data.propertyType);
         // Use API value only if it's reasonable (>= $50,000), otherwise default to $500,000
         const fetchedHomeValue = (data.estimatedValue && data.estimatedValue >= 50000) ? data.estimatedValue : 500000;
         setHomeValue(fetchedHomeValue);
         setHomeValueInput(fetchedHomeValue.toString());
+        setValuation(data.valuation);
 
-        // Use estimated mortgage if available and reasonable (>= $1,000), otherwise default to 50% of home value
-        if (data.estimatedMortgageBalance && data.estimatedMortgageBalance >= 1000) {
-          setMortgageBalance(data.estimatedMortgageBalance);
+        // Seed the lien stack with today's estimated balance of each recorded open loan. The first
+        // mortgage goes on the slider (a nearly paid-off loan stays small); with none recorded it starts at $0.
+        const recordedFirst = data.liens.find(lien => lien.type === 'first_mortgage');
+        if (recordedFirst) {
+          const firstEstimate = estimateLienBalance(recordedFirst);
+          setMortgageBalance(firstEstimate.balance);
+          setMortgageEstimate({ ...firstEstimate, basis: formatBalanceBasis(recordedFirst, firstEstimate) });
         } else {
-          setMortgageBalance(Math.round(fetchedHomeValue * 0.5));
+          setMortgageBalance(0);
+          setMortgageEstimate(null);
         }
+        setAdditionalLiens(data.liens
+          .filter(lien => lien !== recordedFirst)
+          .map(lien => {
+            const estimate = estimateLienBalance(lien);
+            return {
+              ...createLien(lien.type, estimate.balance, Math.max(2, lien.position)),
+              recordedDate: lien.recordedDate,
+              lender: lien.lender,
+              balanceBasis: `${formatBalanceBasis(lien, estimate)} · ${estimate.confidence} confidence`
+            };
+          }));
 
         setPropertyOwner(data.ownerNames);
         const detectedOwnership = detectOwnershipType(data.ownerNames);
@@ -311,7 +232,10 @@ export function WizardStep1({
         setOwnershipType('Personal');
         setHomeValue(500000);
         setHomeValueInput('500000');
+        setValuation(null);
         setMortgageBalance(250000);
+        setMortgageEstimate(null);
+        setAdditionalLiens([]);
         setPropertyOwner('Unknown');
       } finally {
         setIsLoading(false);
@@ -320,7 +244,7 @@ export function WizardStep1({
     if (address) {
       fetchPropertyData();
     }
-  }, [address]);
+  }, [address, refreshCount]);
 
   // Auto-validate whenever key values change
   useEffect(() => {
@@ -405,15 +329,14 @@ export function WizardStep1({
 
   const handleConfirmProperty = () => {
     if (isFullyEligible) {
-      // Parse owner names - split by comma if multiple
-      const ownerNamesArray = propertyOwner
-        ? propertyOwner.split(',').map(name => name.trim()).filter(Boolean)
-        : [];
+      // One entry per owner (joint owners and entities split out by the parser)
+      const ownerNamesArray = ownership.owners.map(owner => owner.name);
 
       onComplete({
         homeValue,
         state,
-        mortgageBalance,
+        mortgageBalance: totalLienBalance,
+        liens,
         maxInvestment,
         propertyType,
         ownershipType,
@@ -432,12 +355,107 @@ export function WizardStep1({
       <div className="min-h-[400px] flex flex-col items-center justify-center text-center p-8">
         <Loader2 className="w-16 h-16 text-accent animate-spin mb-6" />
         <h3 className="text-xl font-semibold text-foreground mb-2">Analyzing Property Data</h3>
-        <p className="text-muted-foreground">Pulling information from Atom Data...</p>
+        <p className="text-muted-foreground">Pulling public property records...</p>
         <p className="text-sm text-muted-foreground mt-2">{address}</p>
       </div>
     );
   }
 
+  // Cached lookups say how old they are, so officers who suspect stale data can re-fetch
+  const lookupFreshness = lookupFromCache && lookupFetchedAt && (
+    <div className="flex items-center gap-2 text-xs text-muted-foreground">
+      <span>
+        Property data from {new Date(lookupFetchedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+      </span>
+      <button
+        type="button"
+        className="inline-flex items-center gap-1 text-accent hover:underline"
+        onClick={() => setRefreshCount(count => count + 1)}
+      >
+        <RefreshCw className="w-3 h-3" />
+        Refresh
+      </button>
+    </div>
+  );
+
+  const ownershipReview = needsOwnershipReview && (
+    <div className="rounded-lg border border-amber-300 bg-amber-50 p-3 text-xs text-amber-800 space-y-2">
+      <p className="font-semibold flex items-center gap-1.5">
+        <AlertCircle className="w-3.5 h-3.5" />
+        Please confirm the ownership type
+      </p>
+      {ownership.owners.length === 0 ? (
+        <p>We couldn't read the owner names from the property record.</p>
+      ) : (
+        <ul className="space-y-0.5">
+          {ownership.owners.map(owner => (
+            <li key={owner.name}>
+              {owner.name} - {owner.entityType === 'Personal' ? 'Individual' : owner.entityType} ({Math.round(owner.confidence * 100)}% confidence)
+            </li>
+          ))}
+        </ul>
+      )}
+      <Button size="sm" variant="outline" className="h-7 text-xs bg-background" onClick={() => setOwnershipConfirmed(true)}>
+        {ownershipType || 'Ownership'} is correct
+      </Button>
+    </div>
+  );
+
+  // Where the looked-up value came from, and a warning when it needs checking
+  const valuationWarnings = valuation ? getValuationWarnings(valuation) : [];
+  const valuationNotice = valuation && (
+    <div className="space-y-2">
+      <div className="text-xs text-muted-foreground text-center space-y-0.5">
+        <p>{VALUE_SOURCE_LABELS[valuation.source]}{valuation.value > 0 && <>: {formatCurrency(valuation.value)}</>}</p>
+        {valuation.low !== null && valuation.high !== null && (
+          <p>
+            Range {formatCurrency(valuation.low)} - {formatCurrency(valuation.high)}
+            {valuation.confidence !== null && <> · confidence {valuation.confidence}/100</>}
+            {valuation.fsd !== null && <> · FSD {Math.round(valuation.fsd * 100)}%</>}
+          </p>
+        )}
+      </div>
+      {valuationWarnings.length > 0 && (
+        <div className="rounded-lg border border-amber-300 bg-amber-50 p-3 text-xs text-amber-800 space-y-1">
+          {valuationWarnings.map(warning => (
+            <p key={warning} className="flex items-start gap-1.5">
+              <AlertCircle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+              {warning}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+
+  // Where the slider's starting balance came from, so the officer knows what they are confirming
+  const mortgageBasis = (
+    <div className="text-xs text-muted-foreground text-center space-y-0.5">
+      {mortgageEstimate ? (
+        <>
+          <p>
+            Estimated {formatCurrency(mortgageEstimate.balance)} (range {formatCurrency(mortgageEstimate.low)} - {formatCurrency(mortgageEstimate.high)}, {mortgageEstimate.confidence} confidence)
+          </p>
+          <p>{mortgageEstimate.basis}</p>
+          {mortgageBalance !== mortgageEstimate.balance && (
+            <button
+              type="button"
+              className="inline-flex items-center gap-1 text-accent hover:underline"
+              onClick={() => setMortgageBalance(mortgageEstimate.balance)}
+            >
+              <RotateCcw className="w-3 h-3" />
+              Use estimate
+            </button>
+          )}
+        </>
+      ) : apiError ? (
+        <p>Property lookup failed - placeholder balance, please confirm with the homeowner</p>
+      ) : (
+        <p>No open first mortgage in public records - starting at $0, please confirm with the homeowner</p>
+      )}
+    </div>
+  );
+
   return (
     <div className="space-y-4">
       {/* API Error Alert */}
@@ -484,6 +502,7 @@ export function WizardStep1({
                 <div className="text-left space-y-1">
                   <p className="text-xs text-muted-foreground uppercase tracking-wider font-semibold">Property Address</p>
                   <p className="font-semibold text-lg leading-tight">{address}</p>
+                  {lookupFreshness}
                 </div>
               </div>
               <div className="flex items-center gap-4 border-l pl-8">
@@ -549,7 +568,7 @@ export function WizardStep1({
                   <User className="w-4 h-4" />
                   <span className="text-xs font-semibold uppercase tracking-wider">Ownership</span>
                 </div>
-                <Select value={ownershipType} onValueChange={setOwnershipType}>
+                <Select value={ownershipType} onValueChange={handleOwnershipTypeChange}>
                   <SelectTrigger className={`bg-background h-12 text-base ${ownershipType ? isOwnershipTypeEligible(ownershipType) ? 'border-emerald-500/50 ring-emerald-500/20' : 'border-destructive ring-destructive/20' : ''}`}>
                     <SelectValue placeholder="Select Ownership" />
                   </SelectTrigger>
@@ -561,6 +580,7 @@ export function WizardStep1({
                     ))}
                   </SelectContent>
                 </Select>
+                {ownershipReview}
               </div>
             </div>
           </CardContent>
@@ -601,6 +621,7 @@ export function WizardStep1({
                   <span>$3M</span>
                 </div>
               </div>
+              {valuationNotice}
             </CardContent>
           </Card>
 
@@ -635,6 +656,7 @@ export function WizardStep1({
                   <span>{formatCurrency(homeValue)}</span>
                 </div>
               </div>
+              {mortgageBasis}
             </CardContent>
           </Card>
         </div>
@@ -730,6 +752,7 @@ export function WizardStep1({
                 <div className="text-left space-y-0.5">
                   <p className="text-[10px] text-muted-foreground uppercase tracking-wider font-bold">Property Address</p>
                   <p className="font-semibold text-sm leading-snug">{address}</p>
+                  {lookupFreshness}
                 </div>
               </div>
 
@@ -798,7 +821,7 @@ export function WizardStep1({
                 <User className="w-3.5 h-3.5 text-accent" />
                 <span className="text-[10px] font-bold uppercase tracking-wider">Ownership</span>
               </div>
-              <Select value={ownershipType} onValueChange={setOwnershipType}>
+              <Select value={ownershipType} onValueChange={handleOwnershipTypeChange}>
                 <SelectTrigger className={`bg-background h-11 text-sm ${ownershipType ? isOwnershipTypeEligible(ownershipType) ? 'border-emerald-500/50 ring-emerald-500/20' : 'border-destructive ring-destructive/20' : ''}`}>
                   <SelectValue placeholder="Select Ownership" />
                 </SelectTrigger>
@@ -810,6 +833,7 @@ export function WizardStep1({
                   ))}
                 </SelectContent>
               </Select>
+              {ownershipReview}
             </div>
           </CardContent>
         </Card>
@@ -847,6 +871,7 @@ export function WizardStep1({
                 <span>$3M</span>
               </div>
             </div>
+            {valuationNotice}
           </CardContent>
         </Card>
 
@@ -881,6 +906,7 @@ export function WizardStep1({
                 <span>{formatCurrency(homeValue)}</span>
               </div>
             </div>
+            {mortgageBasis}
           </CardContent>
         </Card>
 
@@ -956,6 +982,118 @@ export function WizardStep1({
         </Card>
       </div>
 
+      {/* Second mortgages, HELOCs and other liens */}
+      <LienStackEditor
+        homeValue={homeValue}
+        liens={liens}
+        onChange={setAdditionalLiens}
+        onFirstMortgagePayoffChange={setPayoffFirstMortgage}
+      />
+
+      {/* Borrower Adjustments */}
+      {borrowerAdjustmentNotes.length > 0 && (
+        <div className="rounded-lg border bg-muted/30 p-3 text-xs text-muted-foreground space-y-1">
+          <p className="font-semibold uppercase tracking-wide">Adjusted for borrower profile</p>
+          {borrowerAdjustmentNotes.map(note => (
+            <p key={note}>{note}</p>
+          ))}
+        </div>
+      )}
+
+      {/* Eligibility Trace */}
+      {dualEligibility && (
+        <EligibilityTracePanel traces={[dualEligibility.heiTrace, dualEligibility.slTrace]} />
+      )}
+
+      {/* HEI Payoff Calculator */}
+      {dualEligibility?.heiEligible && maxInvestment > 0 && (
+        <Card className="shadow-sm">
+          <CardHeader className="pb-2">
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-sm font-semibold text-muted-foreground uppercase tracking-wide flex items-center gap-2">
+                <TrendingUp className="w-4 h-4" />
+                HEI Payoff Calculator
+              </CardTitle>
+              <Button variant="ghost" size="sm" onClick={() => setShowPayoffCalculator(!showPayoffCalculator)}>
+                {showPayoffCalculator ? 'Hide' : 'Show'}
+              </Button>
+            </div>
+          </CardHeader>
+          {showPayoffCalculator && (
+            <CardContent className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between text-xs">
+                    <span className="font-semibold uppercase tracking-wider text-muted-foreground">Funding Amount</span>
+                    <span className="font-bold">{formatCurrency(fundingAmount)}</span>
+                  </div>
+                  <Slider
+                    value={[fundingAmount]}
+                    onValueChange={(value) => setFundingAmount(value[0])}
+                    min={Math.min(HEI_MIN_INVESTMENT, maxInvestment)}
+                    max={maxInvestment}
+                    step={1000}
+                  />
+                </div>
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between text-xs">
+                    <span className="font-semibold uppercase tracking-wider text-muted-foreground">Settle In Year</span>
+                    <span className="font-bold">{settlementYear}</span>
+                  </div>
+                  <Slider
+                    value={[settlementYear]}
+                    onValueChange={(value) => setSettlementYear(value[0])}
+                    min={1}
+                    max={30}
+                    step={1}
+                  />
+                </div>
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between text-xs">
+                    <span className="font-semibold uppercase tracking-wider text-muted-foreground">Home Appreciation</span>
+                    <span className="font-bold">{formatPercentage(hpaRate)} / yr</span>
+                  </div>
+                  <Slider
+                    value={[hpaRate]}
+                    onValueChange={(value) => setHpaRate(value[0])}
+                    min={-5}
+                    max={10}
+                    step={0.5}
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-3 gap-4 text-center">
+                <div className="rounded-lg border bg-muted/20 p-3">
+                  <p className="text-[10px] font-bold uppercase tracking-wider text-muted-foreground">Payoff (Year {settlementYear})</p>
+                  <p className="text-lg font-bold">{formatCurrency(calculation.payoff)}</p>
+                </div>
+                <div className="rounded-lg border bg-muted/20 p-3">
+                  <p className="text-[10px] font-bold uppercase tracking-wider text-muted-foreground">Effective APR</p>
+                  <p className="text-lg font-bold">{formatPercentage(calculation.apr)}</p>
+                </div>
+                <div className="rounded-lg border bg-muted/20 p-3">
+                  <p className="text-[10px] font-bold uppercase tracking-wider text-muted-foreground">Cost Cap</p>
+                  <p className={`text-lg font-bold ${calculation.isCapped ? 'text-accent' : ''}`}>
+                    {calculation.isCapped ? `Capped at ${formatPercentage(calculation.costCap * 100)}` : 'Not reached'}
+                  </p>
+                </div>
+              </div>
+
+              <PayoffSchedule schedule={schedule} selectedYear={settlementYear} onSelectYear={setSettlementYear} />
+
+              <ScenarioComparison
+                investment={fundingAmount}
+                homeValue={homeValue}
+                mortgageBalance={remainingLienBalance}
+                settlementYear={settlementYear}
+                state={state || undefined}
+              />
+            </CardContent>
+          )}
+        </Card>
+      )}
+
       {/* Validation Errors */}
       {displayErrors.length > 0 && (
         <div className="rounded-lg border border-destructive/50 bg-destructive/10 p-4 mb-4">
@@ -982,7 +1120,7 @@ export function WizardStep1({
           variant="success"
           onClick={handleConfirmProperty}
           className="flex-1"
-          disabled={!isFullyEligible || isEmployed === null || hasLatePayments === null || isCreditScoreLow === null}
+          disabled={!isFullyEligible || needsOwnershipReview || isEmployed === null || hasLatePayments === null || isCreditScoreLow === null}
         >
           Confirm Property Details
         </Button>
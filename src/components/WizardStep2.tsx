@@ -1,4 +1,4 @@
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, useMemo } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -8,11 +8,17 @@ import { Textarea } from '@/components/ui/textarea';
 import { User, Mail, Phone, CreditCard, DollarSign, Calendar, HelpCircle, MessageSquare, ChevronDown, Check, Info } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { useFundingReasons } from '@/hooks/useFundingReasons';
+import { PropertyInput, getLowestCreditTier } from '@/lib/productRules';
+import { solveAllProductsForTargetCash } from '@/lib/reverseCalculator';
+import { PRODUCT_NAMES } from '@/lib/ineligibilityReasons';
+import { formatCurrency } from '@/lib/heaCalculator';
 
 interface WizardStep2Props {
     ownerNames: string[];
     onComplete: (data: PersonalDetailsData) => void;
     onBack: () => void;
+    // When set, the requested amount is checked against what each product can fund
+    property?: PropertyInput;
 }
 
 export interface PersonalDetailsData {
@@ -42,11 +48,12 @@ const DEFAULT_MONEY_REASON_OPTIONS = [
     { value: 'other', label: 'Other' },
 ];
 
+// minAmount is the bottom of the range - the least the homeowner is asking for
 const MONEY_AMOUNT_OPTIONS = [
-    { value: 'under_25k', label: '<$25K' },
-    { value: '25k_50k', label: '$25K - $50K' },
-    { value: '50k_100k', label: '$50K - $100K' },
-    { value: '100k_plus', label: '$100K+' },
+    { value: 'under_25k', label: '<$25K', minAmount: 0 },
+    { value: '25k_50k', label: '$25K - $50K', minAmount: 25000 },
+    { value: '50k_100k', label: '$50K - $100K', minAmount: 50000 },
+    { value: '100k_plus', label: '$100K+', minAmount: 100000 },
 ];
 
 // Multi-select dropdown component for reasons
@@ -142,7 +149,7 @@ function MultiSelectReasons({
     );
 }
 
-export function WizardStep2({ ownerNames, onComplete, onBack }: WizardStep2Props) {
+export function WizardStep2({ ownerNames, onComplete, onBack, property }: WizardStep2Props) {
     // Fetch dynamic funding reasons from Supabase
     const { reasons: fundingReasons, loading: reasonsLoading } = useFundingReasons();
 
@@ -160,6 +167,22 @@ export function WizardStep2({ ownerNames, onComplete, onBack }: WizardStep2Props
     const [moneyAmount, setMoneyAmount] = useState('');
     const [helpfulContext, setHelpfulContext] = useState('');
 
+    // Compare the requested amount with the best offer from a product the property can qualify for
+    const amountCheck = useMemo(() => {
+        const targetAmount = MONEY_AMOUNT_OPTIONS.find(option => option.value === moneyAmount)?.minAmount ?? 0;
+        if (!property || targetAmount <= 0) return null;
+
+        const borrower = { ...property.borrower, creditTier: getLowestCreditTier([creditScore]) ?? property.borrower?.creditTier };
+        const solutions = solveAllProductsForTargetCash({ ...property, borrower }, targetAmount)
+            .filter(solution => solution.blockingReasons.length === 0);
+        if (solutions.length === 0 || solutions.some(solution => solution.isReachable)) return null;
+
+        return {
+            gap: Math.min(...solutions.map(solution => solution.gap)),
+            solutions,
+        };
+    }, [property, moneyAmount, creditScore]);
+
     const toggleReason = (value: string) => {
         setMoneyReasons(prev =>
             prev.includes(value)
@@ -258,6 +281,26 @@ export function WizardStep2({ ownerNames, onComplete, onBack }: WizardStep2Props
                             ))}
                         </SelectContent>
                     </Select>
+                    {amountCheck && (
+                        <div className="rounded-md border border-amber-500/50 bg-amber-500/10 p-3 text-xs text-left space-y-1">
+                            <p className="font-semibold text-amber-700 flex items-center gap-1">
+                                <Info className="w-3 h-3" />
+                                Requested amount exceeds max by {formatCurrency(amountCheck.gap)}
+                            </p>
+                            {amountCheck.solutions.map(solution => {
+                                const options = [
+                                    solution.minHomeValue !== null && `a home value of ${formatCurrency(solution.minHomeValue)}`,
+                                    solution.payoffNeeded !== null && solution.payoffNeeded > 0 && `${formatCurrency(solution.payoffNeeded)} of liens paid down first`,
+                                ].filter(Boolean);
+                                return (
+                                    <p key={solution.productId} className="text-muted-foreground">
+                                        {PRODUCT_NAMES[solution.productId]}: up to {formatCurrency(solution.currentAmount)} today.{' '}
+                                        {options.length > 0 ? `Reaching ${formatCurrency(solution.targetAmount)} needs ${options.join(' or ')}.` : 'Not reachable under current guidelines.'}
+                                    </p>
+                                );
+                            })}
+                        </div>
+                    )}
                 </div>
 
                 {/* Estimated Credit Score - moved from Homeowner Details */}
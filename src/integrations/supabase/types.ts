@@ -55,6 +55,7 @@ export type Database = {
           created_at?: string
           updated_at?: string
         }
+        Relationships: []
       }
       funding_reasons: {
         Row: {
@@ -84,6 +85,119 @@ export type Database = {
           created_at?: string
           updated_at?: string
         }
+        Relationships: []
+      }
+      offer_revisions: {
+        Row: {
+          id: string
+          submission_id: string
+          revision: number
+          source: 'submission' | 'reunderwrite'
+          home_value: number | null
+          mortgage_balance: number | null
+          sl_eligible: boolean
+          sl_offer_amount: number | null
+          sl_ineligibility_reasons: Json | null
+          hei_eligible: boolean
+          hei_max_investment: number | null
+          hei_ineligibility_reasons: Json | null
+          guideline_version: number | null
+          changes: Json | null
+          is_material_change: boolean
+          acknowledged_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          submission_id: string
+          revision: number
+          source: 'submission' | 'reunderwrite'
+          home_value?: number | null
+          mortgage_balance?: number | null
+          sl_eligible?: boolean
+          sl_offer_amount?: number | null
+          sl_ineligibility_reasons?: Json | null
+          hei_eligible?: boolean
+          hei_max_investment?: number | null
+          hei_ineligibility_reasons?: Json | null
+          guideline_version?: number | null
+          changes?: Json | null
+          is_material_change?: boolean
+          acknowledged_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          submission_id?: string
+          revision?: number
+          source?: 'submission' | 'reunderwrite'
+          home_value?: number | null
+          mortgage_balance?: number | null
+          sl_eligible?: boolean
+          sl_offer_amount?: number | null
+          sl_ineligibility_reasons?: Json | null
+          hei_eligible?: boolean
+          hei_max_investment?: number | null
+          hei_ineligibility_reasons?: Json | null
+          guideline_version?: number | null
+          changes?: Json | null
+          is_material_change?: boolean
+          acknowledged_at?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'offer_revisions_submission_id_fkey'
+            columns: ['submission_id']
+            isOneToOne: false
+            referencedRelation: 'submissions'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      product_guidelines: {
+        Row: {
+          id: string
+          version: number
+          status: 'draft' | 'published' | 'archived'
+          rules: Json
+          notes: string | null
+          created_by: string | null
+          published_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          version: number
+          status?: 'draft' | 'published' | 'archived'
+          rules: Json
+          notes?: string | null
+          created_by?: string | null
+          published_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          version?: number
+          status?: 'draft' | 'published' | 'archived'
+          rules?: Json
+          notes?: string | null
+          created_by?: string | null
+          published_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'product_guidelines_created_by_fkey'
+            columns: ['created_by']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          }
+        ]
       }
       submissions: {
         Row: {
@@ -92,9 +206,11 @@ export type Database = {
           property_address: string
           home_value: number | null
           mortgage_balance: number | null
+          liens: Json | null
           owner_names: string[] | null
           property_type: string | null
           state: string | null
+          ownership_type: string | null
           // Personal Details
           owner_emails: string[] | null
           owner_phones: string[] | null
@@ -104,13 +220,26 @@ export type Database = {
           money_reasons: string[] | null
           helpful_context: string | null
           money_amount: string | null
+          is_credit_score_low: boolean | null
+          is_employed: boolean | null
+          has_late_payments: boolean | null
           // Eligibility
           sl_eligible: boolean
           sl_offer_amount: number | null
-          sl_ineligibility_reasons: string[] | null
+          sl_ineligibility_reasons: Json | null
           hei_eligible: boolean
           hei_max_investment: number | null
-          hei_ineligibility_reasons: string[] | null
+          hei_ineligibility_reasons: Json | null
+          guideline_version: number | null
+          underwriting_status: string
+          underwriting_mismatches: Json | null
+          underwritten_at: string | null
+          offer_expires_at: string | null
+          current_revision: number | null
+          closed_at: string | null
+          reunderwrite_failures: number
+          reunderwrite_error: string | null
+          reunderwrite_retry_at: string | null
           equityadvance_deal_id: string | null
           everflow_tracking_link: string | null
           submitted_to_crm: boolean
@@ -126,9 +255,11 @@ export type Database = {
           property_address: string
           home_value?: number | null
           mortgage_balance?: number | null
+          liens?: Json | null
           owner_names?: string[] | null
           property_type?: string | null
           state?: string | null
+          ownership_type?: string | null
           // Personal Details
           owner_emails?: string[] | null
           owner_phones?: string[] | null
@@ -138,13 +269,26 @@ export type Database = {
           money_reasons?: string[] | null
           helpful_context?: string | null
           money_amount?: string | null
+          is_credit_score_low?: boolean | null
+          is_employed?: boolean | null
+          has_late_payments?: boolean | null
           // Eligibility
           sl_eligible?: boolean
           sl_offer_amount?: number | null
-          sl_ineligibility_reasons?: string[] | null
+          sl_ineligibility_reasons?: Json | null
           hei_eligible?: boolean
           hei_max_investment?: number | null
-          hei_ineligibility_reasons?: string[] | null
+          hei_ineligibility_reasons?: Json | null
+          guideline_version?: number | null
+          underwriting_status?: string
+          underwriting_mismatches?: Json | null
+          underwritten_at?: string | null
+          offer_expires_at?: string | null
+          current_revision?: number | null
+          closed_at?: string | null
+          reunderwrite_failures?: number
+          reunderwrite_error?: string | null
+          reunderwrite_retry_at?: string | null
           equityadvance_deal_id?: string | null
           everflow_tracking_link?: string | null
           submitted_to_crm?: boolean
@@ -160,9 +304,11 @@ export type Database = {
           property_address?: string
           home_value?: number | null
           mortgage_balance?: number | null
+          liens?: Json | null
           owner_names?: string[] | null
           property_type?: string | null
           state?: string | null
+          ownership_type?: string | null
           // Personal Details
           owner_emails?: string[] | null
           owner_phones?: string[] | null
@@ -172,13 +318,26 @@ export type Database = {
           money_reasons?: string[] | null
           helpful_context?: string | null
           money_amount?: string | null
+          is_credit_score_low?: boolean | null
+          is_employed?: boolean | null
+          has_late_payments?: boolean | null
           // Eligibility
           sl_eligible?: boolean
           sl_offer_amount?: number | null
-          sl_ineligibility_reasons?: string[] | null
+          sl_ineligibility_reasons?: Json | null
           hei_eligible?: boolean
           hei_max_investment?: number | null
-          hei_ineligibility_reasons?: string[] | null
+          hei_ineligibility_reasons?: Json | null
+          guideline_version?: number | null
+          underwriting_status?: string
+          underwriting_mismatches?: Json | null
+          underwritten_at?: string | null
+          offer_expires_at?: string | null
+          current_revision?: number | null
+          closed_at?: string | null
+          reunderwrite_failures?: number
+          reunderwrite_error?: string | null
+          reunderwrite_retry_at?: string | null
           equityadvance_deal_id?: string | null
           everflow_tracking_link?: string | null
           submitted_to_crm?: boolean
@@ -188,6 +347,7 @@ export type Database = {
           created_at?: string
           updated_at?: string
         }
+        Relationships: []
       }
       user_roles: {
         Row: {
@@ -208,6 +368,7 @@ export type Database = {
           role?: 'admin'
           created_at?: string
         }
+        Relationships: []
       }
     }
     Views: {
@@ -221,6 +382,12 @@ export type Database = {
         }
         Returns: boolean
       }
+      publish_product_guidelines: {
+        Args: {
+          guideline_id: string
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       app_role: 'admin'
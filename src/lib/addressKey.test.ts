@@ -0,0 +1,15 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeAddressKey } from './addressKey';
+
+describe('normalizeAddressKey', () => {
+  it.each([
+    ['123 Main Street, Phoenix, AZ 85001', '123 MAIN ST PHOENIX AZ 85001'],
+    ['123 MAIN ST PHOENIX AZ 85001-1234', '123 MAIN ST PHOENIX AZ 85001'],
+    ['  123  main st.,  phoenix, az 85001, USA ', '123 MAIN ST PHOENIX AZ 85001'],
+    ['400 North Lake Avenue Apartment 2B, Denver, CO', '400 N LAKE AVE APT 2B DENVER CO'],
+    ['400 N Lake Ave #2B, Denver, CO', '400 N LAKE AVE UNIT 2B DENVER CO'],
+    ['9 Sunset Boulevard, Los Angeles, CA, United States', '9 SUNSET BLVD LOS ANGELES CA']
+  ])('%s', (address, expected) => {
+    expect(normalizeAddressKey(address)).toBe(expected);
+  });
+});
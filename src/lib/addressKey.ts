@@ -0,0 +1,57 @@
+/**
+ * Address Key
+ * Normalized form of a street address, used as the property lookup cache key so
+ * "123 Main Street, Phoenix, AZ 85001" and "123 MAIN ST PHOENIX AZ 85001-1234" hit the
+ * same entry. Shared with the atom-property-lookup edge function (Deno).
+ */
+
+// USPS standard abbreviations for the words that most often vary between entries
+const ADDRESS_ABBREVIATIONS: Record<string, string> = {
+  STREET: 'ST',
+  AVENUE: 'AVE',
+  ROAD: 'RD',
+  DRIVE: 'DR',
+  BOULEVARD: 'BLVD',
+  LANE: 'LN',
+  COURT: 'CT',
+  PLACE: 'PL',
+  TERRACE: 'TER',
+  CIRCLE: 'CIR',
+  PARKWAY: 'PKWY',
+  HIGHWAY: 'HWY',
+  TRAIL: 'TRL',
+  NORTH: 'N',
+  SOUTH: 'S',
+  EAST: 'E',
+  WEST: 'W',
+  NORTHEAST: 'NE',
+  NORTHWEST: 'NW',
+  SOUTHEAST: 'SE',
+  SOUTHWEST: 'SW',
+  APARTMENT: 'APT',
+  SUITE: 'STE',
+  '#': 'UNIT'
+};
+
+const COUNTRY_SUFFIXES = ['USA', 'US', 'UNITED STATES', 'UNITED STATES OF AMERICA'];
+
+/**
+ * Cache key for an address: uppercase, punctuation dropped, standard abbreviations,
+ * five-digit ZIP and no trailing country
+ */
+export function normalizeAddressKey(address: string): string {
+  let text = address.toUpperCase().trim();
+
+  for (const suffix of COUNTRY_SUFFIXES) {
+    text = text.replace(new RegExp(`[,\\s]+${suffix}$`), '');
+  }
+
+  const words = text
+    .replace(/\b(\d{5})-\d{4}\b/g, '$1') // ZIP+4 -> ZIP
+    .replace(/#/g, ' # ')
+    .replace(/[.,]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+
+  return words.map(word => ADDRESS_ABBREVIATIONS[word] ?? word).join(' ');
+}
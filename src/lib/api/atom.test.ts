@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { detectOwnershipType, mapPropertyType } from './atom';
+
+describe('detectOwnershipType', () => {
+  it.each([
+    ['JOHN SMITH', 'Personal'],
+    ['JOHN SMITH, JANE SMITH', 'Personal'],
+    ['ACME HOLDINGS LLC', 'LLC'],
+    ['ACME HOLDINGS L.L.C.', 'LLC'],
+    ['Acme Holdings Llc', 'LLC'],
+    ['ACME LIMITED LIABILITY COMPANY', 'LLC'],
+    ['SMITH FAMILY TRUST', 'Trust'],
+    ['JOHN SMITH TRUSTEE', 'Trust'],
+    ['SMITH JOHN TR', 'Trust'],
+    ['TR SMITH FAMILY', 'Trust'],
+    ['SMITH LIVING TRUST LLC', 'LLC'], // LLC is checked before Trust
+    ['SMITH FAMILY TRUST; ACME CORP', 'Corporation'], // a business co-owner outranks a trust
+    ['ACME INC', 'Corporation'],
+    ['ACME CORPORATION', 'Corporation'],
+    ['SMITH & CO.', 'Corporation'],
+    ['ACME PARTNERSHIP', 'Partnership'],
+    ['ACME L.P.', 'Partnership'],
+    // Whole words only - surnames containing LP / TR / INC are individuals
+    ['PHILLIPS JOHN', 'Personal'],
+    ['TRAN MINH', 'Personal'],
+    ['VINCENT MARY', 'Personal'],
+    ['HELPMAN JOHN & JANE', 'Personal']
+  ])('%s -> %s', (ownerNames, expected) => {
+    expect(detectOwnershipType(ownerNames)).toBe(expected);
+  });
+});
+
+describe('mapPropertyType', () => {
+  it.each([
+    ['', 'Single Family'],
+    ['Single Family Residence', 'Single Family'],
+    ['single family residence', 'Single Family'],
+    ['SFR', 'Single Family'],
+    ['Residential', 'Single Family'],
+    ['Condominium', 'Condo'],
+    ['TIMESH', 'Condo'],
+    ['Town House', 'Townhouse'],
+    ['Duplex', 'Multi-Family'],
+    ['Mobile Home', 'Manufactured'],
+    ['Vacant Land', 'Land'],
+    ['Apartment', 'Apartment'],
+    // Fallbacks by keyword, in priority order
+    ['Single Family Residence / Townhouse', 'Single Family'],
+    ['CONDO CONVERSION', 'Condo'],
+    ['MULTI UNIT', 'Multi-Family'],
+    ['AGRICULTURAL LAND', 'Land'],
+    ['Unknown Thing', 'Single Family']
+  ])('%s -> %s', (atomType, expected) => {
+    expect(mapPropertyType(atomType)).toBe(expected);
+  });
+});
@@ -0,0 +1,46 @@
+import { normalizeAddressKey } from '../addressKey';
+import type { RecordedLien } from '../recordedLiens';
+import type { PropertyValuation } from '../valuation';
+import { withEstimatedMortgageBalance, type PropertyDataProvider } from './propertyData';
+
+// A fixture is the property data for one address, without the derived mortgage balance
+export interface PropertyFixture {
+    address: string;
+    ownerNames: string;
+    state: string;
+    propertyType: string;
+    estimatedValue: number;
+    valuation: PropertyValuation;
+    liens: RecordedLien[];
+}
+
+// JSON files in ./fixtures, loaded on first use so they stay out of the main bundle
+const FIXTURE_FILES = import.meta.glob<PropertyFixture>('./fixtures/*.json', { import: 'default' });
+
+const DEFAULT_FIXTURE = './fixtures/default.json';
+
+/**
+ * Fixture whose address matches (by normalized address key), or the default fixture
+ */
+export async function loadPropertyFixture(address: string): Promise<PropertyFixture> {
+    const key = normalizeAddressKey(address);
+    const fixtures = await Promise.all(Object.values(FIXTURE_FILES).map(load => load()));
+    return fixtures.find(fixture => normalizeAddressKey(fixture.address) === key)
+        ?? await FIXTURE_FILES[DEFAULT_FIXTURE]();
+}
+
+/**
+ * Deterministic property data from JSON on disk, for running the wizard offline and in tests.
+ * Addresses without their own fixture get the default one.
+ */
+export const fixtureProvider: PropertyDataProvider = {
+    name: 'fixture',
+    async lookup(address: string) {
+        const { address: _fixtureAddress, ...fixture } = await loadPropertyFixture(address);
+        return withEstimatedMortgageBalance({
+            ...fixture,
+            fromCache: false,
+            provider: 'fixture'
+        });
+    }
+};
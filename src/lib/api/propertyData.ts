@@ -0,0 +1,51 @@
+import { estimateLienBalance, sumBalanceEstimates } from '../mortgageBalance';
+import type { RecordedLien } from '../recordedLiens';
+import type { PropertyValuation } from '../valuation';
+
+/**
+ * Property data the wizard and batch screening work from, whichever vendor it came from
+ */
+export interface PropertyData {
+    ownerNames: string;
+    state: string;
+    propertyType: string;
+    estimatedValue: number;
+    // Where estimatedValue came from, with the AVM range and confidence when there is one
+    valuation: PropertyValuation;
+    // Open loans from public records, in lien order (original amounts)
+    liens: RecordedLien[];
+    // Estimated current principal across the recorded open loans (see mortgageBalance)
+    estimatedMortgageBalance: number;
+    // Set when the lookup was served from the property lookup cache
+    fromCache?: boolean;
+    // When the data was fetched from the vendor (ISO timestamp)
+    fetchedAt?: string;
+    // Name of the provider that answered
+    provider?: PropertyDataProviderName;
+}
+
+export interface LookupOptions {
+    // Skip any cache and fetch from the vendor again
+    forceRefresh?: boolean;
+}
+
+export type PropertyDataProviderName = 'attom' | 'rentcast' | 'fixture';
+
+/**
+ * A source of property data. Providers throw when they can't answer, so the next
+ * configured provider can be tried.
+ */
+export interface PropertyDataProvider {
+    name: PropertyDataProviderName;
+    lookup(address: string, options?: LookupOptions): Promise<PropertyData>;
+}
+
+/**
+ * Fills in the estimated mortgage balance from the recorded liens
+ */
+export function withEstimatedMortgageBalance(data: Omit<PropertyData, 'estimatedMortgageBalance'>): PropertyData {
+    return {
+        ...data,
+        estimatedMortgageBalance: sumBalanceEstimates(data.liens.map(lien => estimateLienBalance(lien))).balance,
+    };
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createPropertyLookup, getConfiguredProviders } from './providers';
+import { fixtureProvider } from './fixtureProvider';
+import type { PropertyData, PropertyDataProvider } from './propertyData';
+
+const result = (provider: PropertyData['provider']): PropertyData => ({
+  ownerNames: 'JANE DOE',
+  state: 'CA',
+  propertyType: 'Single Family',
+  estimatedValue: 500000,
+  valuation: { value: 500000, source: 'avm', low: null, high: null, confidence: null, fsd: null },
+  liens: [],
+  estimatedMortgageBalance: 0,
+  provider
+});
+
+const failing = (name: PropertyDataProvider['name']): PropertyDataProvider => ({
+  name,
+  lookup: vi.fn(async () => { throw new Error(`${name} is down`); })
+});
+
+const answering = (name: PropertyDataProvider['name']): PropertyDataProvider => ({
+  name,
+  lookup: vi.fn(async () => result(name))
+});
+
+describe('getConfiguredProviders', () => {
+  it.each([
+    [undefined, ['attom']],
+    ['', ['attom']],
+    ['fixture', ['fixture']],
+    ['attom, RentCast', ['attom', 'rentcast']],
+    ['rentcast,unknown,rentcast', ['rentcast']],
+    ['unknown', ['attom']]
+  ])('%s -> %j', (config, expected) => {
+    expect(getConfiguredProviders(config).map(provider => provider.name)).toEqual(expected);
+  });
+});
+
+describe('createPropertyLookup', () => {
+  it('returns the first provider that answers', async () => {
+    const attom = failing('attom');
+    const rentcast = answering('rentcast');
+    const fixture = answering('fixture');
+
+    const data = await createPropertyLookup([attom, rentcast, fixture])('1 Main St', { forceRefresh: true });
+
+    expect(data.provider).toBe('rentcast');
+    expect(attom.lookup).toHaveBeenCalledWith('1 Main St', { forceRefresh: true });
+    expect(fixture.lookup).not.toHaveBeenCalled();
+  });
+
+  it('throws the last error when every provider fails', async () => {
+    await expect(createPropertyLookup([failing('attom'), failing('rentcast')])('1 Main St')).rejects.toThrow('rentcast is down');
+  });
+});
+
+describe('fixtureProvider', () => {
+  it('returns the fixture matching the address, whatever its formatting', async () => {
+    const data = await fixtureProvider.lookup('123 MAIN STREET, PHOENIX, AZ 85001-1234');
+
+    expect(data).toMatchObject({ ownerNames: 'GARCIA MARIA, GARCIA LUIS', state: 'AZ', provider: 'fixture' });
+    expect(data.liens.map(lien => lien.type)).toEqual(['first_mortgage', 'heloc']);
+    expect(data.estimatedMortgageBalance).toBeGreaterThan(0);
+  });
+
+  it('falls back to the default fixture and answers the same every time', async () => {
+    const first = await fixtureProvider.lookup('1 Nowhere Rd, Springfield, IL');
+    const second = await fixtureProvider.lookup('1 Nowhere Rd, Springfield, IL');
+
+    expect(first).toEqual(second);
+    expect(first).toMatchObject({ ownerNames: 'DOE JOHN & JANE', state: 'CA', estimatedValue: 650000 });
+  });
+});
@@ -0,0 +1,51 @@
+import { attomProvider } from './atom';
+import { fixtureProvider } from './fixtureProvider';
+import { rentCastProvider } from './rentcast';
+import type { LookupOptions, PropertyData, PropertyDataProvider, PropertyDataProviderName } from './propertyData';
+
+export const PROPERTY_DATA_PROVIDERS: Record<PropertyDataProviderName, PropertyDataProvider> = {
+    attom: attomProvider,
+    rentcast: rentCastProvider,
+    fixture: fixtureProvider,
+};
+
+const DEFAULT_PROVIDERS: PropertyDataProviderName[] = ['attom'];
+
+/**
+ * Providers to try, in order, from a comma-separated list such as "attom,rentcast".
+ * Set with VITE_PROPERTY_DATA_PROVIDER; unknown names are ignored.
+ */
+export function getConfiguredProviders(config: string | undefined = import.meta.env.VITE_PROPERTY_DATA_PROVIDER): PropertyDataProvider[] {
+    const names = (config || '')
+        .split(',')
+        .map(name => name.trim().toLowerCase())
+        .filter((name): name is PropertyDataProviderName => name in PROPERTY_DATA_PROVIDERS);
+    const unique = names.filter((name, i) => names.indexOf(name) === i);
+    return (unique.length > 0 ? unique : DEFAULT_PROVIDERS).map(name => PROPERTY_DATA_PROVIDERS[name]);
+}
+
+/**
+ * Lookup that asks each provider in turn and returns the first answer. When every
+ * provider fails, the last error is thrown.
+ */
+export function createPropertyLookup(providers: PropertyDataProvider[]) {
+    return async (address: string, options: LookupOptions = {}): Promise<PropertyData> => {
+        let lastError: unknown = new Error('No property data provider configured');
+        for (const provider of providers) {
+            try {
+                return await provider.lookup(address, options);
+            } catch (error) {
+                console.error(`Property lookup via ${provider.name} failed:`, error);
+                lastError = error;
+            }
+        }
+        throw lastError;
+    };
+}
+
+/**
+ * Looks up a property with the configured providers
+ */
+export function lookupProperty(address: string, options: LookupOptions = {}): Promise<PropertyData> {
+    return createPropertyLookup(getConfiguredProviders())(address, options);
+}
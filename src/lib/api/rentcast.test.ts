@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { mapRentCastProperty } from './rentcast';
+
+describe('mapRentCastProperty', () => {
+  it('maps the property record and value estimate', () => {
+    const data = mapRentCastProperty(
+      { state: 'TX', propertyType: 'Condo', lastSalePrice: 300000, owner: { names: ['Jane Doe', 'John Doe'], type: 'Individual' } },
+      { price: 345678.4, priceRangeLow: 320000, priceRangeHigh: 370000 },
+      '2026-10-01T00:00:00Z'
+    );
+
+    expect(data).toEqual({
+      ownerNames: 'Jane Doe, John Doe',
+      state: 'TX',
+      propertyType: 'Condo',
+      estimatedValue: 345678,
+      valuation: { value: 345678, source: 'avm', low: 320000, high: 370000, confidence: null, fsd: null },
+      liens: [],
+      estimatedMortgageBalance: 0,
+      fromCache: false,
+      fetchedAt: '2026-10-01T00:00:00Z',
+      provider: 'rentcast'
+    });
+  });
+
+  it('falls back to the last sale price, then the latest tax assessment', () => {
+    expect(mapRentCastProperty({ lastSalePrice: 410000 }, null).valuation).toMatchObject({ value: 410000, source: 'last_sale' });
+    expect(mapRentCastProperty({ taxAssessments: { '2022': { value: 250000 }, '2024': { value: 280000 } } }, {}).valuation)
+      .toMatchObject({ value: 280000, source: 'assessment' });
+  });
+
+  it('defaults missing owner and property type', () => {
+    const data = mapRentCastProperty({}, null);
+
+    expect(data.ownerNames).toBe('Unknown Owner');
+    expect(data.propertyType).toBe('Single Family');
+  });
+});
@@ -0,0 +1,77 @@
+import { unrangedValuation, type PropertyValuation } from '../valuation';
+import { mapPropertyType } from './atom';
+import { callLookupFunction } from './edgeFunctions';
+import { withEstimatedMortgageBalance, type LookupOptions, type PropertyData, type PropertyDataProvider } from './propertyData';
+
+// The parts of RentCast's /properties and /avm/value responses we read
+export interface RentCastProperty {
+    formattedAddress?: string;
+    state?: string;
+    propertyType?: string;
+    lastSalePrice?: number;
+    owner?: { names?: string[]; type?: string };
+    taxAssessments?: Record<string, { value?: number }>;
+}
+
+export interface RentCastValuation {
+    price?: number;
+    priceRangeLow?: number;
+    priceRangeHigh?: number;
+}
+
+/**
+ * Maps a RentCast property record and value estimate to our property data.
+ * RentCast has no mortgage records, so the lien list is always empty.
+ */
+export function mapRentCastProperty(property: RentCastProperty, estimate: RentCastValuation | null, fetchedAt?: string): PropertyData {
+    // Latest tax assessment, when there is no AVM or sale price
+    const assessmentYears = Object.keys(property.taxAssessments || {}).sort();
+    const latestAssessment = assessmentYears.length > 0
+        ? property.taxAssessments![assessmentYears[assessmentYears.length - 1]]?.value || 0
+        : 0;
+
+    // RentCast's estimate has a range but no confidence score
+    let valuation: PropertyValuation;
+    if (estimate?.price) {
+        valuation = {
+            value: Math.round(estimate.price),
+            source: 'avm',
+            low: estimate.priceRangeLow || null,
+            high: estimate.priceRangeHigh || null,
+            confidence: null,
+            fsd: null
+        };
+    } else if (property.lastSalePrice) {
+        valuation = unrangedValuation(property.lastSalePrice, 'last_sale');
+    } else {
+        valuation = unrangedValuation(latestAssessment, latestAssessment ? 'assessment' : 'none');
+    }
+
+    return withEstimatedMortgageBalance({
+        ownerNames: property.owner?.names?.filter(Boolean).join(', ') || 'Unknown Owner',
+        state: property.state || '',
+        propertyType: mapPropertyType(property.propertyType || ''),
+        estimatedValue: valuation.value,
+        valuation,
+        liens: [],
+        fromCache: false,
+        fetchedAt,
+        provider: 'rentcast'
+    });
+}
+
+/**
+ * RentCast, through the rentcast-property-lookup edge function (which holds the API key)
+ */
+export const rentCastProvider: PropertyDataProvider = {
+    name: 'rentcast',
+    async lookup(address: string, options: LookupOptions = {}) {
+        console.log('RentCast lookup called with address:', address, options);
+
+        const data = await callLookupFunction('rentcast-property-lookup', { address });
+        if (!data.property) {
+            throw new Error('Property not found');
+        }
+        return mapRentCastProperty(data.property, data.valuation, data.fetchedAt);
+    }
+};
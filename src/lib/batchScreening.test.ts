@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { mapWithConcurrency, parseCsv, parseLeadCsv, screenLead, toResultsCsv } from './batchScreening';
+import type { PropertyData } from './api/propertyData';
+
+const atomData = (overrides: Partial<PropertyData> = {}): PropertyData => ({
+  ownerNames: 'JANE DOE',
+  state: 'CA',
+  propertyType: 'Single Family',
+  estimatedValue: 500000,
+  valuation: { value: 500000, source: 'avm', low: 470000, high: 530000, confidence: 90, fsd: 0.06 },
+  liens: [],
+  estimatedMortgageBalance: 200000,
+  ...overrides
+});
+
+describe('parseCsv', () => {
+  it('handles quoted fields, escaped quotes and CRLF', () => {
+    expect(parseCsv('a,"b, c","say ""hi"""\r\n1,2,3\n\n')).toEqual([
+      ['a', 'b, c', 'say "hi"'],
+      ['1', '2', '3']
+    ]);
+  });
+});
+
+describe('parseLeadCsv', () => {
+  it('finds columns by header name and strips currency formatting', () => {
+    const { leads, errors } = parseLeadCsv('Balance,Property Address,Home Value\n"$150,000","1 Main St, Phoenix, AZ",450000\n,  ,\n');
+    expect(errors).toEqual([]);
+    expect(leads).toEqual([{ rowNumber: 2, address: '1 Main St, Phoenix, AZ', homeValue: 450000, mortgageBalance: 150000 }]);
+  });
+
+  it('reads address, value, balance by position without a header', () => {
+    const { leads, errors } = parseLeadCsv('"1 Main St, Phoenix, AZ",450000\n,300000,100000');
+    expect(leads).toEqual([{ rowNumber: 1, address: '1 Main St, Phoenix, AZ', homeValue: 450000, mortgageBalance: undefined }]);
+    expect(errors).toEqual(['Row 2: missing address']);
+  });
+
+  it('rejects an empty file', () => {
+    expect(parseLeadCsv('  \n').errors).toEqual(['The file is empty']);
+  });
+});
+
+describe('mapWithConcurrency', () => {
+  it('keeps input order and never exceeds the limit', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const seen: number[] = [];
+    const results = await mapWithConcurrency([30, 10, 20, 0, 5], 2, async (delay) => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await new Promise(resolve => setTimeout(resolve, delay));
+      inFlight--;
+      return delay * 2;
+    }, (_, index) => seen.push(index));
+
+    expect(results).toEqual([60, 20, 40, 0, 10]);
+    expect(peak).toBe(2);
+    expect([...seen].sort()).toEqual([0, 1, 2, 3, 4]);
+  });
+});
+
+describe('screenLead', () => {
+  it('uses the lead list value and balance over the lookup', async () => {
+    const result = await screenLead({ rowNumber: 2, address: '1 Main St', mortgageBalance: 100000 }, async () => atomData());
+    expect(result.status).toBe('eligible');
+    expect(result.homeValue).toBe(500000);
+    expect(result.mortgageBalance).toBe(100000);
+    expect(result.cltv).toBeCloseTo(20, 6);
+    expect(result.bestAmount).toBe(Math.max(result.slOfferAmount, result.heiMaxInvestment));
+  });
+
+  it('reports reasons when neither product qualifies', async () => {
+    const result = await screenLead({ rowNumber: 2, address: '1 Main St' }, async () => atomData({ estimatedMortgageBalance: 480000 }));
+    expect(result.status).toBe('ineligible');
+    expect(result.bestAmount).toBe(0);
+    expect(result.reasons.length).toBeGreaterThan(0);
+  });
+
+  it('turns a failed lookup into an error row', async () => {
+    const result = await screenLead({ rowNumber: 3, address: 'Nowhere' }, async () => {
+      throw new Error('Property not found');
+    });
+    expect(result.status).toBe('error');
+    expect(result.error).toBe('Property not found');
+  });
+});
+
+describe('toResultsCsv', () => {
+  it('escapes fields that contain commas or quotes', async () => {
+    const result = await screenLead({ rowNumber: 2, address: '1 Main St, Phoenix, AZ' }, async () => atomData({ ownerNames: 'JOHN "JACK" DOE' }));
+    const [header, row] = toResultsCsv([result]).split('\n');
+    expect(header.startsWith('Address,Status,Owner')).toBe(true);
+    expect(row.startsWith('"1 Main St, Phoenix, AZ",eligible,"JOHN ""JACK"" DOE",CA')).toBe(true);
+    expect(parseCsv(row)[0]).toHaveLength(header.split(',').length);
+  });
+});
@@ -0,0 +1,257 @@
+/**
+ * Batch Screening
+ * Screens a lead list (CSV of addresses with optional value and balance) against both
+ * products. Lookups run through a concurrency limit so a long list doesn't flood ATTOM.
+ */
+
+import { checkDualProductEligibility } from './heaCalculator';
+import { formatIneligibilityReasons, type IneligibilityReason } from './ineligibilityReasons';
+import { calculateLTV, getActiveGuidelines } from './productRules';
+import { detectOwnershipType } from './api/atom';
+import type { PropertyData } from './api/propertyData';
+
+export interface LeadRow {
+  rowNumber: number; // 1-based line in the file, for error messages
+  address: string;
+  // Overrides the ATTOM estimate when the lead list already has it
+  homeValue?: number;
+  mortgageBalance?: number;
+}
+
+export interface ScreeningResult {
+  lead: LeadRow;
+  status: 'eligible' | 'ineligible' | 'error';
+  error?: string;
+  ownerNames: string;
+  state: string;
+  propertyType: string;
+  ownershipType: string;
+  homeValue: number;
+  mortgageBalance: number;
+  cltv: number;
+  slEligible: boolean;
+  slOfferAmount: number;
+  heiEligible: boolean;
+  heiMaxInvestment: number;
+  bestAmount: number;
+  // Display text when neither product qualifies
+  reasons: string[];
+  // Per-product reason codes, stored when the row is promoted to a submission
+  slReasons: IneligibilityReason[];
+  heiReasons: IneligibilityReason[];
+  guidelineVersion: number;
+}
+
+// Header names accepted for each column (case-insensitive)
+const COLUMN_ALIASES: Record<'address' | 'homeValue' | 'mortgageBalance', string[]> = {
+  address: ['address', 'property address', 'property_address', 'full address'],
+  homeValue: ['value', 'home value', 'home_value', 'estimated value'],
+  mortgageBalance: ['balance', 'mortgage', 'mortgage balance', 'mortgage_balance', 'loan balance']
+};
+
+/**
+ * Split CSV text into rows of fields. Handles quoted fields ("123 Main St, Phoenix, AZ"),
+ * escaped quotes ("") and CRLF line endings.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(fields => fields.some(value => value.trim() !== ''));
+}
+
+const parseAmount = (value: string | undefined) => {
+  const amount = parseFloat((value || '').replace(/[$,\s]/g, ''));
+  return Number.isFinite(amount) && amount >= 0 ? amount : undefined;
+};
+
+/**
+ * Leads from an uploaded CSV. With a header row, columns are found by name; without one,
+ * the columns are address, value, balance.
+ */
+export function parseLeadCsv(text: string): { leads: LeadRow[]; errors: string[] } {
+  const rows = parseCsv(text);
+  if (rows.length === 0) return { leads: [], errors: ['The file is empty'] };
+
+  const header = rows[0].map(value => value.trim().toLowerCase());
+  const findColumn = (aliases: string[]) => header.findIndex(name => aliases.includes(name));
+  const hasHeader = findColumn(COLUMN_ALIASES.address) >= 0;
+  const columns = hasHeader
+    ? {
+      address: findColumn(COLUMN_ALIASES.address),
+      homeValue: findColumn(COLUMN_ALIASES.homeValue),
+      mortgageBalance: findColumn(COLUMN_ALIASES.mortgageBalance)
+    }
+    : { address: 0, homeValue: 1, mortgageBalance: 2 };
+
+  const leads: LeadRow[] = [];
+  const errors: string[] = [];
+  rows.slice(hasHeader ? 1 : 0).forEach((fields, i) => {
+    const rowNumber = i + (hasHeader ? 2 : 1);
+    const address = (fields[columns.address] || '').trim();
+    if (!address) {
+      errors.push(`Row ${rowNumber}: missing address`);
+      return;
+    }
+    leads.push({
+      rowNumber,
+      address,
+      homeValue: columns.homeValue >= 0 ? parseAmount(fields[columns.homeValue]) : undefined,
+      mortgageBalance: columns.mortgageBalance >= 0 ? parseAmount(fields[columns.mortgageBalance]) : undefined
+    });
+  });
+
+  return { leads, errors };
+}
+
+/**
+ * Run an async worker over every item with at most `limit` in flight. Results keep input order.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>,
+  onResult?: (result: R, index: number) => void
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const runLane = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+      onResult?.(results[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, runLane));
+  return results;
+}
+
+/**
+ * Screen one lead: look it up, let the lead list's value and balance win, and check both products
+ */
+export async function screenLead(lead: LeadRow, lookup: (address: string) => Promise<PropertyData>): Promise<ScreeningResult> {
+  const guidelineVersion = getActiveGuidelines().version;
+  const empty = {
+    lead,
+    ownerNames: '',
+    state: '',
+    propertyType: '',
+    ownershipType: '',
+    homeValue: lead.homeValue ?? 0,
+    mortgageBalance: lead.mortgageBalance ?? 0,
+    cltv: 0,
+    slEligible: false,
+    slOfferAmount: 0,
+    heiEligible: false,
+    heiMaxInvestment: 0,
+    bestAmount: 0,
+    reasons: [],
+    slReasons: [],
+    heiReasons: [],
+    guidelineVersion
+  };
+
+  let property: PropertyData;
+  try {
+    property = await lookup(lead.address);
+  } catch (error) {
+    return { ...empty, status: 'error', error: error instanceof Error ? error.message : 'Lookup failed' };
+  }
+
+  const homeValue = lead.homeValue ?? property.estimatedValue;
+  const mortgageBalance = lead.mortgageBalance ?? property.estimatedMortgageBalance;
+  const ownershipType = detectOwnershipType(property.ownerNames);
+  if (!property.state || homeValue <= 0) {
+    return { ...empty, ownerNames: property.ownerNames, status: 'error', error: 'No state or value found for this address' };
+  }
+
+  const dual = checkDualProductEligibility(homeValue, mortgageBalance, property.state, property.propertyType, ownershipType);
+  return {
+    lead,
+    status: dual.eitherEligible ? 'eligible' : 'ineligible',
+    ownerNames: property.ownerNames,
+    state: property.state,
+    propertyType: property.propertyType,
+    ownershipType,
+    homeValue,
+    mortgageBalance,
+    cltv: calculateLTV(homeValue, mortgageBalance),
+    slEligible: dual.slEligible,
+    slOfferAmount: dual.slOfferAmount,
+    heiEligible: dual.heiEligible,
+    heiMaxInvestment: dual.heiEligible ? dual.heiMaxInvestment : 0,
+    bestAmount: Math.max(dual.slOfferAmount, dual.heiEligible ? dual.heiMaxInvestment : 0),
+    reasons: formatIneligibilityReasons(dual.eitherEligible ? [] : dual.combinedReasons),
+    slReasons: dual.slReasons,
+    heiReasons: dual.heiReasons,
+    guidelineVersion
+  };
+}
+
+const csvField = (value: string | number | boolean) => {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Results as CSV for download
+ */
+export function toResultsCsv(results: ScreeningResult[]): string {
+  const header = [
+    'Address', 'Status', 'Owner', 'State', 'Property Type', 'Ownership', 'Home Value', 'Mortgage Balance',
+    'CLTV %', 'SL Eligible', 'SL Offer', 'HEI Eligible', 'HEI Max Investment', 'Best Amount', 'Notes'
+  ];
+  const rows = results.map(result => [
+    result.lead.address,
+    result.status,
+    result.ownerNames,
+    result.state,
+    result.propertyType,
+    result.ownershipType,
+    Math.round(result.homeValue),
+    Math.round(result.mortgageBalance),
+    result.cltv.toFixed(1),
+    result.slEligible ? 'Yes' : 'No',
+    Math.round(result.slOfferAmount),
+    result.heiEligible ? 'Yes' : 'No',
+    Math.round(result.heiMaxInvestment),
+    Math.round(result.bestAmount),
+    result.error || result.reasons.join('; ')
+  ]);
+  return [header, ...rows].map(row => row.map(csvField).join(',')).join('\n');
+}
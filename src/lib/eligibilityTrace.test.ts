@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { formatCashCap, formatRuleCheck } from './eligibilityTrace';
+
+describe('formatRuleCheck', () => {
+  it('formats limits with their comparison', () => {
+    expect(formatRuleCheck({ rule: 'max_ltv', passed: true, actual: 40, limit: 80 })).toEqual({
+      label: 'Max CLTV after closing',
+      actual: '40%',
+      limit: '≤ 80%'
+    });
+    expect(formatRuleCheck({ rule: 'min_home_value', passed: false, actual: 150000, limit: 175000 }).limit).toBe('≥ $175,000');
+  });
+
+  it('formats excluded lists', () => {
+    expect(formatRuleCheck({ rule: 'ownership_type', passed: false, actual: 'LLC', limit: ['LLC', 'Corporation'], excluded: true }).limit)
+      .toBe('Not LLC, Corporation');
+    expect(formatRuleCheck({ rule: 'borrower', passed: true, actual: 'No adjustments', limit: [], excluded: true }).limit).toBe('Any');
+  });
+});
+
+describe('formatCashCap', () => {
+  it.each([
+    [{ cap: 'cltv_headroom', amount: 200000, inputs: { homeValue: 500000, maxLTV: 80, debt: 200000 }, binding: false }, '$500,000 × 80% − $200,000'],
+    [{ cap: 'share_cap', amount: 124750, inputs: { homeValue: 500000, maxSharePercentage: 0.499, exchangeRate: 2 }, binding: true }, '$500,000 × 49.9% ÷ 2'],
+    [{ cap: 'absolute_cap', amount: 500000, inputs: { maxAmount: 500000 }, binding: false }, '$500,000']
+  ] as const)('%o', (cap, formula) => {
+    expect(formatCashCap({ ...cap, inputs: { ...cap.inputs } }).formula).toBe(formula);
+  });
+});
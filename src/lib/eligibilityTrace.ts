@@ -0,0 +1,118 @@
+/**
+ * Eligibility Trace
+ * Every rule the engine evaluated for a product, with its inputs and outcome, and the
+ * caps that sized the offer. Like reason codes, the trace is data - display text comes
+ * from formatRuleCheck / formatCashCap.
+ */
+
+import type { ProductId } from './productRules.ts';
+
+export type RuleCheckId =
+  | 'state'
+  | 'property_type'
+  | 'ownership_type'
+  | 'borrower'
+  | 'min_home_value'
+  | 'max_home_value'
+  | 'max_ltv'
+  | 'min_cash'
+  | 'payoff';
+
+export interface RuleCheck {
+  rule: RuleCheckId;
+  passed: boolean;
+  // The property's value for this rule
+  actual: number | string;
+  // The guideline it was compared against
+  limit: number | string | string[];
+  // limit lists the values that do NOT qualify (otherwise the values that do)
+  excluded?: boolean;
+}
+
+export type CashCapId = 'cltv_headroom' | 'share_cap' | 'absolute_cap' | 'percent_of_value';
+
+export interface CashCap {
+  cap: CashCapId;
+  // Before the zero floor, so a negative headroom is visible
+  amount: number;
+  inputs: Record<string, number>;
+  // The lowest cap sizes the offer
+  binding: boolean;
+}
+
+export interface EligibilityTrace {
+  productId: ProductId;
+  checks: RuleCheck[];
+  caps: CashCap[];
+  // Labels of the state override and borrower adjustments the terms came from
+  termSources: string[];
+}
+
+const RULE_LABELS: Record<RuleCheckId, string> = {
+  state: 'State',
+  property_type: 'Property type',
+  ownership_type: 'Ownership',
+  borrower: 'Borrower profile',
+  min_home_value: 'Minimum home value',
+  max_home_value: 'Maximum home value',
+  max_ltv: 'Max CLTV after closing',
+  min_cash: 'Minimum cash amount',
+  payoff: 'Funding covers payoffs'
+};
+
+const CAP_LABELS: Record<CashCapId, string> = {
+  cltv_headroom: 'CLTV headroom',
+  share_cap: 'Share cap',
+  absolute_cap: 'Program maximum',
+  percent_of_value: 'Percent of value'
+};
+
+const money = (value: number) => `${value < 0 ? '-' : ''}$${Math.round(Math.abs(value)).toLocaleString()}`;
+const percent = (value: number) => `${Number(value.toFixed(1))}%`;
+
+function formatTraceValue(rule: RuleCheckId, value: number | string | string[]): string {
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'string') return value;
+  return rule === 'max_ltv' ? percent(value) : money(value);
+}
+
+/**
+ * Label, the property's value and the limit, e.g. { label: 'Max CLTV after closing', actual: '40%', limit: '≤ 80%' }
+ */
+export function formatRuleCheck(check: RuleCheck): { label: string; actual: string; limit: string } {
+  const comparators: Partial<Record<RuleCheckId, string>> = {
+    min_home_value: '≥ ',
+    max_home_value: '≤ ',
+    max_ltv: '≤ ',
+    min_cash: '≥ ',
+    payoff: '≥ '
+  };
+  return {
+    label: RULE_LABELS[check.rule],
+    actual: formatTraceValue(check.rule, check.actual),
+    limit: check.excluded
+      ? (Array.isArray(check.limit) && check.limit.length === 0 ? 'Any' : `Not ${formatTraceValue(check.rule, check.limit)}`)
+      : `${comparators[check.rule] || ''}${formatTraceValue(check.rule, check.limit)}`
+  };
+}
+
+/**
+ * Label and the arithmetic behind a cap, e.g. "$500,000 × 80% − $200,000"
+ */
+export function formatCashCap(cap: CashCap): { label: string; formula: string } {
+  const { inputs } = cap;
+  const formulas: Record<CashCapId, () => string> = {
+    cltv_headroom: () => `${money(inputs.homeValue)} × ${percent(inputs.maxLTV)} − ${money(inputs.debt)}`,
+    share_cap: () => `${money(inputs.homeValue)} × ${percent(inputs.maxSharePercentage * 100)} ÷ ${inputs.exchangeRate}`,
+    absolute_cap: () => money(inputs.maxAmount),
+    percent_of_value: () => `${money(inputs.homeValue)} × ${percent(inputs.percentage * 100)} − ${money(inputs.debt)}`
+  };
+  return { label: CAP_LABELS[cap.cap], formula: formulas[cap.cap]() };
+}
+
+/**
+ * The cap that sized the offer, if any
+ */
+export function getBindingCap(trace: EligibilityTrace): CashCap | undefined {
+  return trace.caps.find(cap => cap.binding);
+}
@@ -0,0 +1,259 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateMaxInvestment,
+  getMaxInvestmentCaps,
+  calculateHEACost,
+  calculateHEIEligibility,
+  checkDualProductEligibility
+} from './heaCalculator';
+import { DEFAULT_GUIDELINES, buildBorrowerProfile, parseProductGuidelines, type BorrowerProfile } from './productRules';
+
+// Golden cases against the built-in guidelines (version 0). If a rule change moves
+// one of these numbers, update the case deliberately - never loosen the assertion.
+
+describe('calculateMaxInvestment', () => {
+  it.each([
+    // homeValue, mortgageBalance, expected, limiting constraint
+    [500000, 200000, 124750, 'share cap: 49.9% / 2.0 of value'],
+    [500000, 350000, 50000, '80% CLTV headroom'],
+    [500000, 400000, 0, 'exactly 80% CLTV leaves nothing'],
+    [500000, 450000, 0, 'over 80% CLTV never goes negative'],
+    [175000, 0, 43662.5, 'minimum home value'],
+    [3000000, 0, 500000, '$500k absolute cap'],
+    [2000000, 0, 499000, 'just under the absolute cap']
+  ])('%i value / %i mortgage -> %d (%s)', (homeValue, mortgageBalance, expected) => {
+    expect(calculateMaxInvestment(homeValue, mortgageBalance)).toBeCloseTo(expected, 6);
+  });
+
+  it('prefers explicit limits over the guidelines', () => {
+    expect(calculateMaxInvestment(500000, 200000, undefined, 0.5)).toBeCloseTo(50000, 6);
+  });
+});
+
+describe('getMaxInvestmentCaps', () => {
+  it.each([
+    [500000, 200000, 'share_cap'],
+    [500000, 350000, 'cltv_headroom'],
+    [500000, 450000, 'cltv_headroom'],
+    [3000000, 0, 'absolute_cap']
+  ])('%i value / %i mortgage is bound by %s', (homeValue, mortgageBalance, binding) => {
+    const caps = getMaxInvestmentCaps(homeValue, mortgageBalance);
+    expect(caps.filter(cap => cap.binding).map(cap => cap.cap)).toEqual([binding]);
+    expect(Math.max(0, caps.find(cap => cap.binding)!.amount)).toBeCloseTo(calculateMaxInvestment(homeValue, mortgageBalance), 6);
+  });
+
+  it('keeps negative headroom visible', () => {
+    const headroom = getMaxInvestmentCaps(500000, 450000).find(cap => cap.cap === 'cltv_headroom');
+    expect(headroom?.amount).toBeCloseTo(-50000, 6);
+  });
+});
+
+describe('calculateHEACost', () => {
+  it('returns the investor share when the cost cap does not bind', () => {
+    const result = calculateHEACost(100000, 500000, 10, 0.03);
+    expect(result.isCapped).toBe(false);
+    expect(result.payoff).toBeCloseTo(268783.2759, 3);
+    expect(result.apr).toBeCloseTo(10.3927, 3);
+    expect(result.totalCost).toBeCloseTo(168783.2759, 3);
+  });
+
+  // At 3% HPA the 2.0x share exceeds the 19.9% cap through year 4 and falls under it from year 5
+  it.each([
+    [1, true],
+    [4, true],
+    [5, false],
+    [30, false]
+  ])('at 3%% HPA, settling in year %i is capped: %s', (termYears, capped) => {
+    const result = calculateHEACost(100000, 500000, termYears, 0.03);
+    expect(result.isCapped).toBe(capped);
+    expect(result.payoff).toBeLessThanOrEqual(result.maximumUnlockShare + 1e-6);
+  });
+
+  it('caps the payoff at 19.9% a year', () => {
+    const result = calculateHEACost(100000, 500000, 1, 0.03);
+    expect(result.payoff).toBeCloseTo(119900, 6);
+    expect(result.apr).toBeCloseTo(19.9, 6);
+  });
+
+  it('handles depreciation below the investment', () => {
+    const result = calculateHEACost(100000, 500000, 5, -0.2);
+    expect(result.isCapped).toBe(false);
+    expect(result.payoff).toBeCloseTo(65536, 6);
+    expect(result.totalCost).toBeLessThan(0);
+  });
+});
+
+describe('calculateHEIEligibility', () => {
+  const eligible = (homeValue: number, mortgageBalance: number, state = 'CA', propertyType = 'Single Family', ownershipType = 'Personal') =>
+    calculateHEIEligibility(homeValue, mortgageBalance, state, propertyType, ownershipType);
+
+  it.each([
+    // homeValue, mortgageBalance, isEligible, reason codes
+    [175000, 0, true, []],
+    [174999, 0, false, ['HOME_VALUE_TOO_LOW']],
+    [3000000, 0, true, []],
+    [3000001, 0, false, ['HOME_VALUE_TOO_HIGH']],
+    [500000, 385000, true, []], // exactly $15,000 available
+    [500000, 385001, false, ['INSUFFICIENT_EQUITY']],
+    [500000, 400000, false, ['INSUFFICIENT_EQUITY']], // exactly 80% LTV
+    [500000, 400001, false, ['LTV_TOO_HIGH', 'INSUFFICIENT_EQUITY']]
+  ])('%i value / %i mortgage -> eligible %s', (homeValue, mortgageBalance, isEligible, codes) => {
+    const result = eligible(homeValue, mortgageBalance);
+    expect(result.isEligible).toBe(isEligible);
+    expect(result.ineligibilityReasons.map(reason => reason.code)).toEqual(codes);
+  });
+
+  it.each([
+    ['TX', 'Single Family', 'Personal', ['STATE_NOT_ELIGIBLE']],
+    ['CA', 'Manufactured', 'Personal', ['PROPERTY_TYPE_NOT_ELIGIBLE']],
+    ['CA', 'Condo', 'Personal', []],
+    ['CA', 'Single Family', 'LLC', ['OWNERSHIP_TYPE_NOT_ELIGIBLE']],
+    ['CA', 'Single Family', 'Trust', []],
+    ['ca', 'Single Family', 'Personal', []]
+  ])('%s / %s / %s', (state, propertyType, ownershipType, codes) => {
+    const result = eligible(500000, 200000, state, propertyType, ownershipType);
+    expect(result.ineligibilityReasons.map(reason => reason.code)).toEqual(codes);
+  });
+});
+
+describe('checkDualProductEligibility', () => {
+  it.each([
+    // state, propertyType, ownershipType, slEligible, heiEligible, higherAmount
+    ['CA', 'Single Family', 'Personal', true, true, 150000],
+    ['NJ', 'Single Family', 'Personal', false, true, 124750],
+    ['TX', 'Single Family', 'Personal', true, false, 150000],
+    ['CA', 'Condo', 'Personal', false, true, 124750],
+    ['NY', 'Single Family', 'Personal', false, false, 0]
+  ])('%s / %s / %s', (state, propertyType, ownershipType, slEligible, heiEligible, higherAmount) => {
+    const result = checkDualProductEligibility(500000, 200000, state, propertyType, ownershipType);
+    expect(result.slEligible).toBe(slEligible);
+    expect(result.heiEligible).toBe(heiEligible);
+    expect(result.eitherEligible).toBe(slEligible || heiEligible);
+    expect(result.higherAmount).toBeCloseTo(higherAmount, 6);
+  });
+
+  it('keeps each product\'s own reasons when only one qualifies', () => {
+    const result = checkDualProductEligibility(500000, 200000, 'NJ', 'Single Family', 'Personal');
+    expect(result.slReasons.map(reason => reason.code)).toEqual(['STATE_NOT_ELIGIBLE']);
+    expect(result.heiReasons).toEqual([]);
+    expect(result.combinedReasons).toEqual([]);
+  });
+
+  it('reports only reasons that fail for every product when neither qualifies', () => {
+    const result = checkDualProductEligibility(500000, 200000, 'NY', 'Single Family', 'LLC');
+    expect(result.combinedReasons).toEqual([
+      { code: 'STATE_NOT_ELIGIBLE', state: 'NY' },
+      { code: 'OWNERSHIP_TYPE_NOT_ELIGIBLE', ownershipType: 'LLC' }
+    ]);
+  });
+
+  it('re-evaluates on post-closing CLTV when debt is paid off at closing', () => {
+    // 90% LTV before closing; paying off the $100k second lien leaves 70%, but funding can't cover it
+    const result = checkDualProductEligibility(500000, 450000, 'CA', 'Single Family', 'Personal', undefined, 100000);
+    expect(result.heiEligible).toBe(false);
+    expect(result.heiMaxInvestment).toBe(0);
+    expect(result.payoffAmount).toBe(100000);
+    expect(result.heiNetCash).toBe(0);
+    expect(result.heiReasons.map(reason => reason.code)).toEqual(['PAYOFF_EXCEEDS_FUNDING']);
+  });
+
+  it('nets payoffs out of the gross funding', () => {
+    const result = checkDualProductEligibility(500000, 300000, 'CA', 'Single Family', 'Personal', undefined, 20000);
+    expect(result.heiEligible).toBe(true);
+    expect(result.heiMaxInvestment).toBeCloseTo(120000, 6);
+    expect(result.heiNetCash).toBeCloseTo(100000, 6);
+  });
+
+  it('traces every rule, passed or failed', () => {
+    const result = checkDualProductEligibility(500000, 200000, 'TX', 'Single Family', 'Personal');
+    expect(result.heiTrace.checks.map(check => [check.rule, check.passed])).toEqual([
+      ['state', false],
+      ['property_type', true],
+      ['ownership_type', true],
+      ['min_home_value', true],
+      ['max_home_value', true],
+      ['max_ltv', true],
+      ['min_cash', true]
+    ]);
+    expect(result.slTrace.caps).toEqual([
+      { cap: 'percent_of_value', amount: 150000, inputs: { homeValue: 500000, percentage: 0.7, debt: 200000 }, binding: true }
+    ]);
+  });
+
+  it('uses the most lenient limit across products in combined reasons', () => {
+    const result = checkDualProductEligibility(150000, 0, 'CA', 'Single Family', 'Personal');
+    expect(result.combinedReasons).toEqual([
+      { code: 'HOME_VALUE_TOO_LOW', limit: 175000, actual: 150000 }
+    ]);
+  });
+});
+
+describe('borrower adjustments', () => {
+  const check = (mortgageBalance: number, borrower?: BorrowerProfile) =>
+    checkDualProductEligibility(500000, mortgageBalance, 'CA', 'Single Family', 'Personal', undefined, 0, borrower);
+
+  it.each([
+    // borrower, heiEligible, heiMaxInvestment, HEI reason codes
+    [undefined, true, 60000, []],
+    [{ creditTier: '620_plus' }, true, 60000, []],
+    [{ creditTier: '580_620' }, true, 35000, []], // max CLTV 75%
+    [{ creditTier: 'below_550' }, false, 0, ['INSUFFICIENT_EQUITY']], // max CLTV 70%, most restrictive wins
+    [{ isEmployed: false }, true, 35000, []],
+    [{ isEmployed: true }, true, 60000, []]
+  ] as [BorrowerProfile | undefined, boolean, number, string[]][])('68%% LTV, %o', (borrower, heiEligible, heiMaxInvestment, codes) => {
+    const result = check(340000, borrower);
+    expect(result.heiEligible).toBe(heiEligible);
+    expect(result.heiMaxInvestment).toBeCloseTo(heiMaxInvestment, 6);
+    expect(result.heiReasons.map(reason => reason.code)).toEqual(codes);
+  });
+
+  it('offers Sale-Leaseback only when there are late payments', () => {
+    const result = check(200000, { hasLatePayments: true });
+    expect(result.heiEligible).toBe(false);
+    expect(result.slEligible).toBe(true);
+    expect(result.heiReasons).toEqual([
+      { code: 'BORROWER_NOT_ELIGIBLE', product: 'hei', condition: 'Late mortgage payments in the last 12 months' }
+    ]);
+    expect(result.heiBorrowerAdjustments.map(adjustment => adjustment.id)).toEqual(['late_payments']);
+    expect(result.slBorrowerAdjustments).toEqual([]);
+  });
+
+  it('leaves an excluded HEI out of the headline amount', () => {
+    const result = check(300000, { hasLatePayments: true });
+    expect(result.heiEligible).toBe(false);
+    expect(result.heiMaxInvestment).toBe(0);
+    expect(result.heiNetCash).toBe(0);
+    expect(result.slOfferAmount).toBeCloseTo(50000, 6);
+    expect(result.higherAmount).toBeCloseTo(50000, 6);
+  });
+
+  it('reports the adjusted limits in combined reasons', () => {
+    // 78% LTV: under the national 80% HEI limit, over the 70% limit for credit below 580
+    const result = check(390000, { creditTier: 'below_550' });
+    expect(result.eitherEligible).toBe(false);
+    expect(result.combinedReasons).toEqual([
+      { code: 'LTV_TOO_HIGH', limit: 70, actual: 78 },
+      { code: 'INSUFFICIENT_EQUITY', limit: 15000, actual: 0 }
+    ]);
+  });
+
+  it('ignores unanswered questions', () => {
+    const borrower = buildBorrowerProfile({ isCreditScoreLow: null, isEmployed: null, hasLatePayments: null });
+    expect(borrower).toEqual({ creditTier: undefined, isEmployed: undefined, hasLatePayments: undefined });
+    expect(check(340000, borrower).heiBorrowerAdjustments).toEqual([]);
+  });
+
+  it('uses the lowest owner credit range over the screening answer', () => {
+    expect(buildBorrowerProfile({ creditScores: ['620_plus', '550_580'], isCreditScoreLow: false }).creditTier).toBe('550_580');
+    expect(buildBorrowerProfile({ creditScores: ['Below 620'], isCreditScoreLow: true }).creditTier).toBe('580_620');
+  });
+
+  it('rejects adjustments with an unknown credit tier', () => {
+    const rules = {
+      ...DEFAULT_GUIDELINES.rules,
+      hei: { ...DEFAULT_GUIDELINES.rules.hei, borrowerAdjustments: [{ id: 'bad', label: 'Bad', when: { creditTiers: ['500'] } }] }
+    };
+    expect(parseProductGuidelines(1, DEFAULT_GUIDELINES.rules)).not.toBeNull();
+    expect(parseProductGuidelines(1, rules)).toBeNull();
+  });
+});
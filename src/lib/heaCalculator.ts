@@ -3,6 +3,28 @@
  * Implements the 19.9% Annualized Cost Cap logic for HEI offers
  */
 
+import {
+  HEI_RULE_SET,
+  HEI_CASH_FORMULA,
+  ProductGuidelines,
+  getActiveGuidelines,
+  getProductRules,
+  getStateOverride,
+  applyStateOverride,
+  AppliedStateOverride,
+  BorrowerAdjustment,
+  BorrowerProfile,
+  StateTermsOverride,
+  evaluateProductEligibility,
+  calculateCashCaps,
+  getCombinedIneligibilityReasons,
+  isStateEligibleFor,
+  isPropertyTypeEligibleFor,
+  isOwnershipTypeEligibleFor
+} from './productRules.ts';
+import type { IneligibilityReason } from './ineligibilityReasons.ts';
+import type { CashCap, EligibilityTrace } from './eligibilityTrace.ts';
+
 export interface HEACalculationResult {
   payoff: number;
   apr: number;
@@ -11,12 +33,26 @@ export interface HEACalculationResult {
   rawUnlockShare: number;
   maximumUnlockShare: number;
   endingHomeValue: number;
+  costCap: number;
+  multiplier: number;
+  stateOverride: AppliedStateOverride | null;
+}
+
+export interface HEAScheduleRow {
+  year: number;
+  homeValue: number;
+  payoff: number;
+  apr: number;
+  isCapped: boolean;
+  // Home value less the HEA payoff and the (unamortized) mortgage balance
+  equityRemaining: number;
 }
 
 export interface HEIEligibilityResult {
   isEligible: boolean;
   maxInvestment: number;
-  ineligibilityReasons: string[];
+  ineligibilityReasons: IneligibilityReason[];
+  trace: EligibilityTrace;
 }
 
 export interface PropertyValidation {
@@ -26,55 +62,92 @@ export interface PropertyValidation {
   state?: string;
 }
 
+// Built-in HEI defaults (HEI_RULE_SET) - live checks use the active guidelines from productRules.ts
 // Eligible states for HEI (Unlock's coverage)
-export const HEI_ELIGIBLE_STATES = [
-  'AZ', 'CA', 'FL', 'HI', 'ID', 'IN', 'KY', 'MI', 'MO', 'MT',
-  'NV', 'NH', 'NJ', 'NM', 'NC', 'OH', 'OR', 'PA', 'SC', 'TN',
-  'UT', 'VA', 'DC', 'WI', 'WY'
-];
+export const HEI_ELIGIBLE_STATES = HEI_RULE_SET.eligibleStates;
 
 // Alias for backward compatibility
 export const ELIGIBLE_STATES = HEI_ELIGIBLE_STATES;
 
 // Property types that are NOT eligible (matches RentCast values)
-export const INELIGIBLE_PROPERTY_TYPES = ['Manufactured', 'Apartment', 'Land'];
+export const INELIGIBLE_PROPERTY_TYPES = HEI_RULE_SET.ineligiblePropertyTypes || [];
 
 // Ownership types that are NOT eligible
-export const INELIGIBLE_OWNERSHIP_TYPES = ['LLC', 'Corporation', 'Partnership'];
+export const INELIGIBLE_OWNERSHIP_TYPES = HEI_RULE_SET.ineligibleOwnershipTypes;
 
 // Maximum Unlock Percentage (the future share Unlock can take)
-export const MAX_UNLOCK_PERCENTAGE = 0.499; // 49.9%
+export const MAX_UNLOCK_PERCENTAGE = HEI_CASH_FORMULA.maxSharePercentage; // 49.9%
 
 // Standard Exchange Rate (multiplier)
-export const EXCHANGE_RATE = 2.0;
+export const EXCHANGE_RATE = HEI_CASH_FORMULA.exchangeRate;
 
 // Min/Max values for HEI
-export const HEI_MIN_HOME_VALUE = 175000;
-export const HEI_MAX_HOME_VALUE = 3000000;
-export const HEI_MIN_INVESTMENT = 15000;
-export const HEI_MAX_INVESTMENT = 500000;
-export const HEI_MAX_CLTV = 80; // 80% max CLTV
+export const HEI_MIN_HOME_VALUE = HEI_RULE_SET.minHomeValue;
+export const HEI_MAX_HOME_VALUE = HEI_RULE_SET.maxHomeValue;
+export const HEI_MIN_INVESTMENT = HEI_RULE_SET.minCashAmount;
+export const HEI_MAX_INVESTMENT = HEI_CASH_FORMULA.maxAmount;
+export const HEI_MAX_CLTV = HEI_RULE_SET.maxLTV; // 80% max CLTV
+export const HEI_COST_CAP = HEI_CASH_FORMULA.costCap ?? 0.199; // 19.9% annualized cost cap
+
+/**
+ * Active HEI rules with the state's override merged in (national terms when no state is given)
+ */
+function getHEIRulesForState(state?: string) {
+  const heiRules = getProductRules('hei');
+  const rules = state ? applyStateOverride(heiRules, state) : heiRules;
+  const formula = rules.cashFormula.type === 'equity_share' ? rules.cashFormula : HEI_CASH_FORMULA;
+  return {
+    rules,
+    formula,
+    stateOverride: state ? getStateOverride(heiRules, state) : null
+  };
+}
+
+/**
+ * The caps behind calculateMaxInvestment (CLTV headroom, share cap, program maximum), with the binding one marked
+ */
+export function getMaxInvestmentCaps(
+  homeValue: number,
+  mortgageBalance: number,
+  state?: string,
+  maxCLTV?: number,
+  maxUnlockPercentage?: number,
+  exchangeRate?: number,
+  absoluteMax?: number
+): CashCap[] {
+  // Unspecified limits come from the active HEI guidelines
+  const { rules: heiRules, formula } = getHEIRulesForState(state);
+
+  return calculateCashCaps({
+    ...heiRules,
+    maxLTV: maxCLTV !== undefined ? maxCLTV * 100 : heiRules.maxLTV,
+    cashFormula: {
+      ...formula,
+      maxSharePercentage: maxUnlockPercentage ?? formula.maxSharePercentage,
+      exchangeRate: exchangeRate ?? formula.exchangeRate,
+      maxAmount: absoluteMax ?? formula.maxAmount
+    }
+  }, homeValue, mortgageBalance);
+}
 
 /**
  * Calculate maximum investment based on CLTV and Unlock Percentage constraints
+ * Uses the state's HEI override (if any) for every limit not passed explicitly
+ * mortgageBalance is the debt that remains after closing (exclude anything paid off from the proceeds)
  */
 export function calculateMaxInvestment(
   homeValue: number,
   mortgageBalance: number,
-  maxCLTV: number = 0.8,
-  maxUnlockPercentage: number = MAX_UNLOCK_PERCENTAGE,
-  exchangeRate: number = EXCHANGE_RATE,
-  absoluteMax: number = HEI_MAX_INVESTMENT
+  state?: string,
+  maxCLTV?: number,
+  maxUnlockPercentage?: number,
+  exchangeRate?: number,
+  absoluteMax?: number
 ): number {
-  // Max based on CLTV
-  const cltvMax = (homeValue * maxCLTV) - mortgageBalance;
-
-  // Max based on Unlock Percentage constraint
-  const maxInvestmentPercentage = maxUnlockPercentage / exchangeRate;
-  const percentMax = homeValue * maxInvestmentPercentage;
+  const caps = getMaxInvestmentCaps(homeValue, mortgageBalance, state, maxCLTV, maxUnlockPercentage, exchangeRate, absoluteMax);
 
   // Return the minimum of all caps
-  return Math.max(0, Math.min(cltvMax, percentMax, absoluteMax));
+  return Math.max(0, Math.min(...caps.map(cap => cap.amount)));
 }
 
 /**
@@ -87,66 +160,78 @@ export function calculateHEIEligibility(
   propertyType: string,
   ownershipType: string
 ): HEIEligibilityResult {
-  const reasons: string[] = [];
-
-  // Check state eligibility
-  if (!HEI_ELIGIBLE_STATES.includes(state.toUpperCase())) {
-    reasons.push(`State not eligible for HEI. Available states: AZ, CA, FL, HI, ID, IN, KY, MI, MO, MT, NV, NH, NJ, NM, NC, OH, OR, PA, SC, TN, UT, VA, DC, WI, WY`);
-  }
-
-  // Check property type
-  if (INELIGIBLE_PROPERTY_TYPES.includes(propertyType)) {
-    reasons.push(`${propertyType} properties are not eligible for HEI`);
-  }
-
-  // Check ownership type
-  if (INELIGIBLE_OWNERSHIP_TYPES.includes(ownershipType)) {
-    reasons.push(`Properties owned by ${ownershipType} are not eligible. Must be personally owned or in a Trust`);
-  }
-
-  // Check home value range
-  if (homeValue < HEI_MIN_HOME_VALUE) {
-    reasons.push(`Home value must be at least $${HEI_MIN_HOME_VALUE.toLocaleString()}`);
-  }
-  if (homeValue > HEI_MAX_HOME_VALUE) {
-    reasons.push(`Home value cannot exceed $${HEI_MAX_HOME_VALUE.toLocaleString()}`);
-  }
-
-  // Calculate CLTV
-  const cltv = homeValue > 0 ? (mortgageBalance / homeValue) * 100 : 0;
-  if (cltv > HEI_MAX_CLTV) {
-    reasons.push(`LTV must be 80% or less. Current LTV is ${cltv.toFixed(1)}%`);
-  }
-
-  // Calculate max investment
-  const maxInvestment = calculateMaxInvestment(homeValue, mortgageBalance);
-
-  if (maxInvestment < HEI_MIN_INVESTMENT) {
-    reasons.push(`Available equity must allow for a minimum investment of $${HEI_MIN_INVESTMENT.toLocaleString()}`);
-  }
+  const result = evaluateProductEligibility(getProductRules('hei'), {
+    homeValue,
+    mortgageBalance,
+    state,
+    propertyType,
+    ownershipType
+  });
 
   return {
-    isEligible: reasons.length === 0,
-    maxInvestment,
-    ineligibilityReasons: reasons
+    isEligible: result.isEligible,
+    maxInvestment: result.cashAmount,
+    ineligibilityReasons: result.reasons,
+    trace: result.trace
   };
 }
 
 /**
- * Calculates the HEA Payoff using the 19.9% Annualized Cost Cap logic
+ * Calculates the HEA Payoff using the Annualized Cost Cap logic (19.9% unless the state overrides it)
  */
 export function calculateHEACost(
   investment: number,
   startingValue: number,
   termYears: number,
   hpaRate: number,
-  multiplier: number = 2.0
+  state?: string,
+  multiplier?: number
 ): HEACalculationResult {
-  const costLimit = 0.199; // 19.9% Cap
   const endingHomeValue = startingValue * Math.pow(1 + hpaRate, termYears);
+  return settleHEA(investment, startingValue, endingHomeValue, termYears, state, multiplier);
+}
+
+/**
+ * HPA rate for a year (1-based) of a year-by-year path. The last rate repeats past the end of the path.
+ */
+export function getPathRate(hpaPath: number[], year: number): number {
+  if (hpaPath.length === 0) return 0;
+  return hpaPath[Math.min(year, hpaPath.length) - 1];
+}
+
+/**
+ * Same as calculateHEACost, but the home value follows a year-by-year HPA path (may be negative)
+ */
+export function calculateHEACostForPath(
+  investment: number,
+  startingValue: number,
+  termYears: number,
+  hpaPath: number[],
+  state?: string,
+  multiplier?: number
+): HEACalculationResult {
+  let endingHomeValue = startingValue;
+  for (let year = 1; year <= termYears; year++) {
+    endingHomeValue *= 1 + getPathRate(hpaPath, year);
+  }
+  return settleHEA(investment, startingValue, endingHomeValue, termYears, state, multiplier);
+}
+
+// Payoff once the ending home value is known: the lesser of the unlock share and the cost cap
+function settleHEA(
+  investment: number,
+  startingValue: number,
+  endingHomeValue: number,
+  termYears: number,
+  state?: string,
+  multiplier?: number
+): HEACalculationResult {
+  const { formula, stateOverride } = getHEIRulesForState(state);
+  const costLimit = formula.costCap ?? HEI_COST_CAP;
+  const exchangeRate = multiplier ?? formula.exchangeRate;
 
   const investmentPercentage = investment / startingValue;
-  const unlockPercentage = investmentPercentage * multiplier;
+  const unlockPercentage = investmentPercentage * exchangeRate;
   const rawUnlockShare = endingHomeValue * unlockPercentage;
 
   const maximumUnlockShare = investment * Math.pow(1 + costLimit, termYears);
@@ -163,10 +248,45 @@ export function calculateHEACost(
     totalCost: finalPayoff - investment,
     rawUnlockShare,
     maximumUnlockShare,
-    endingHomeValue
+    endingHomeValue,
+    costCap: costLimit,
+    multiplier: exchangeRate,
+    stateOverride
   };
 }
 
+export const HEA_SCHEDULE_YEARS = 30;
+
+/**
+ * Payoff at every possible settlement year (1..30) under a single HPA rate or a year-by-year path
+ */
+export function calculateHEASchedule(
+  investment: number,
+  startingValue: number,
+  hpaRate: number | number[],
+  mortgageBalance: number = 0,
+  state?: string,
+  multiplier?: number
+): HEAScheduleRow[] {
+  const schedule: HEAScheduleRow[] = [];
+
+  for (let year = 1; year <= HEA_SCHEDULE_YEARS; year++) {
+    const result = typeof hpaRate === 'number'
+      ? calculateHEACost(investment, startingValue, year, hpaRate, state, multiplier)
+      : calculateHEACostForPath(investment, startingValue, year, hpaRate, state, multiplier);
+    schedule.push({
+      year,
+      homeValue: result.endingHomeValue,
+      payoff: result.payoff,
+      apr: result.apr,
+      isCapped: result.isCapped,
+      equityRemaining: result.endingHomeValue - result.payoff - mortgageBalance
+    });
+  }
+
+  return schedule;
+}
+
 /**
  * Validate property eligibility for both SL and HEI
  */
@@ -177,28 +297,29 @@ export function validateProperty(
   homeValue: number
 ): PropertyValidation {
   const errors: string[] = [];
+  const heiRules = getProductRules('hei');
 
   // Check state eligibility for HEI
-  if (!HEI_ELIGIBLE_STATES.includes(state.toUpperCase())) {
+  if (!isStateEligibleFor(heiRules, state)) {
     errors.push(`Property must be in an eligible state. ${state} is not currently supported for HEI.`);
   }
 
   // Check property type
-  if (INELIGIBLE_PROPERTY_TYPES.includes(propertyType)) {
+  if (!isPropertyTypeEligibleFor(heiRules, propertyType)) {
     errors.push(`${propertyType} properties are not eligible for this program.`);
   }
 
   // Check ownership type
-  if (INELIGIBLE_OWNERSHIP_TYPES.includes(ownershipType)) {
+  if (!isOwnershipTypeEligibleFor(heiRules, ownershipType)) {
     errors.push(`Properties owned by ${ownershipType} are not eligible. Property must be personally owned.`);
   }
 
   // Check home value range
-  if (homeValue < HEI_MIN_HOME_VALUE) {
-    errors.push(`Home value must be at least $${HEI_MIN_HOME_VALUE.toLocaleString()}.`);
+  if (homeValue < heiRules.minHomeValue) {
+    errors.push(`Home value must be at least $${heiRules.minHomeValue.toLocaleString()}.`);
   }
-  if (homeValue > HEI_MAX_HOME_VALUE) {
-    errors.push(`Home value cannot exceed $${HEI_MAX_HOME_VALUE.toLocaleString()}.`);
+  if (homeValue > heiRules.maxHomeValue) {
+    errors.push(`Home value cannot exceed $${heiRules.maxHomeValue.toLocaleString()}.`);
   }
 
   return {
@@ -231,112 +352,63 @@ export interface DualProductEligibility {
   slOfferAmount: number;
   heiMaxInvestment: number;
   higherAmount: number;
-  combinedReasons: string[];
+  // Each product's own reasons (empty when that product qualifies)
+  slReasons: IneligibilityReason[];
+  heiReasons: IneligibilityReason[];
+  combinedReasons: IneligibilityReason[];
+  // State-specific HEI terms the offer was calculated with
+  heiStateOverride: AppliedStateOverride | null;
+  // Payoff-at-closing mode: debt retired from the proceeds and what the homeowner keeps
+  payoffAmount: number;
+  slNetCash: number;
+  heiNetCash: number;
+  // Borrower conditions (credit, employment, payment history) that changed each product's terms
+  slBorrowerAdjustments: BorrowerAdjustment[];
+  heiBorrowerAdjustments: BorrowerAdjustment[];
+  // Every rule evaluated and the caps that sized each offer
+  slTrace: EligibilityTrace;
+  heiTrace: EligibilityTrace;
 }
 
-// Sale-Leaseback constants (imported logic from slCalculator)
-const SL_ELIGIBLE_STATES = ['AZ', 'NV', 'CA', 'CO', 'TX', 'GA', 'FL', 'TN', 'OH', 'IN', 'NC'];
-const SL_ELIGIBLE_PROPERTY_TYPES = ['Single Family'];
-const SL_MIN_HOME_VALUE = 200000;
-const SL_MAX_HOME_VALUE = 1500000;
-const SL_MAX_LTV = 65;
-const SL_CASH_PERCENTAGE = 0.70;
-
 /**
  * Check eligibility for BOTH Sale-Leaseback and HEI products
  * Returns true if property qualifies for at least one product
+ * Evaluates against the active guidelines unless a specific version is passed
+ * payoffAtClosing is the part of mortgageBalance retired from the proceeds (eligibility uses post-closing CLTV)
+ * borrower applies the products' credit, employment and payment history adjustments
  */
 export function checkDualProductEligibility(
   homeValue: number,
   mortgageBalance: number,
   state: string,
   propertyType: string,
-  ownershipType: string
+  ownershipType: string,
+  guidelines: ProductGuidelines = getActiveGuidelines(),
+  payoffAtClosing: number = 0,
+  borrower?: BorrowerProfile
 ): DualProductEligibility {
-  const stateUpper = state.toUpperCase();
-  const ltv = homeValue > 0 ? (mortgageBalance / homeValue) * 100 : 0;
-
-  // ---- Check Sale-Leaseback Eligibility ----
-  const slReasons: string[] = [];
-
-  if (!SL_ELIGIBLE_STATES.includes(stateUpper)) {
-    slReasons.push(`State not eligible for Sale-Leaseback (requires: ${SL_ELIGIBLE_STATES.join(', ')})`);
-  }
-  if (!SL_ELIGIBLE_PROPERTY_TYPES.includes(propertyType)) {
-    slReasons.push('Only Single Family homes are eligible for Sale-Leaseback');
-  }
-  // Ownership type check - LLCs, Corporations, and Partnerships are not eligible for Sale-Leaseback
-  if (INELIGIBLE_OWNERSHIP_TYPES.includes(ownershipType)) {
-    slReasons.push(`Properties owned by ${ownershipType} are not eligible for Sale-Leaseback`);
-  }
-  if (homeValue < SL_MIN_HOME_VALUE) {
-    slReasons.push(`Property value must be at least $${SL_MIN_HOME_VALUE.toLocaleString()} for Sale-Leaseback`);
-  }
-  if (homeValue > SL_MAX_HOME_VALUE) {
-    slReasons.push(`Property value cannot exceed $${SL_MAX_HOME_VALUE.toLocaleString()} for Sale-Leaseback`);
-  }
-  if (ltv > SL_MAX_LTV) {
-    slReasons.push(`LTV must be 65% or less for Sale-Leaseback (current: ${ltv.toFixed(1)}%)`);
-  }
+  const property = { homeValue, mortgageBalance, state, propertyType, ownershipType, payoffAtClosing, borrower };
 
-  const slEligible = slReasons.length === 0;
-  const slOfferAmount = slEligible ? Math.max(0, (homeValue * SL_CASH_PERCENTAGE) - mortgageBalance) : 0;
+  // ---- Evaluate each product against its rule set ----
+  const slRules = guidelines.rules.sl;
+  const heiRules = guidelines.rules.hei;
+  const slResult = evaluateProductEligibility(slRules, property);
+  const heiResult = evaluateProductEligibility(heiRules, property);
 
-  // ---- Check HEI Eligibility ----
-  const heiResult = calculateHEIEligibility(homeValue, mortgageBalance, state, propertyType, ownershipType);
+  const slEligible = slResult.isEligible;
+  const slOfferAmount = slEligible ? slResult.cashAmount : 0;
   const heiEligible = heiResult.isEligible;
-  const heiMaxInvestment = heiResult.maxInvestment;
+  const heiMaxInvestment = heiEligible ? heiResult.cashAmount : 0;
 
   // ---- Combine Results ----
+  // Only a product that qualifies can drive the headline amount
   const eitherEligible = slEligible || heiEligible;
   const higherAmount = Math.max(slOfferAmount, heiMaxInvestment);
 
-  // Only show combined reasons if NEITHER product qualifies
-  let combinedReasons: string[] = [];
-  if (!eitherEligible) {
-    // Show generic disqualification reasons (without mentioning product names explicitly)
-    const reasons: string[] = [];
-
-    // State check
-    const slStateOk = SL_ELIGIBLE_STATES.includes(stateUpper);
-    const heiStateOk = HEI_ELIGIBLE_STATES.includes(stateUpper);
-    if (!slStateOk && !heiStateOk) {
-      reasons.push(`${state} is not eligible for StayFrank's solutions`);
-    }
-
-    // Property type check
-    const slTypeOk = SL_ELIGIBLE_PROPERTY_TYPES.includes(propertyType);
-    const heiTypeOk = !INELIGIBLE_PROPERTY_TYPES.includes(propertyType);
-    if (!slTypeOk && !heiTypeOk) {
-      reasons.push(`${propertyType} properties are not eligible`);
-    }
-
-    // Ownership type check (HEI only)
-    if (INELIGIBLE_OWNERSHIP_TYPES.includes(ownershipType)) {
-      reasons.push(`Properties owned by ${ownershipType} are not eligible`);
-    }
-
-    // Home value check
-    if (homeValue < HEI_MIN_HOME_VALUE) {
-      reasons.push(`Home value must be at least $${HEI_MIN_HOME_VALUE.toLocaleString()}`);
-    }
-    if (homeValue > HEI_MAX_HOME_VALUE) {
-      reasons.push(`Home value cannot exceed $${HEI_MAX_HOME_VALUE.toLocaleString()}`);
-    }
-
-    // LTV check (use the more lenient HEI threshold of 80%)
-    if (ltv > HEI_MAX_CLTV) {
-      reasons.push(`LTV must be 80% or less (current: ${ltv.toFixed(1)}%)`);
-    }
-
-    // Min investment check
-    const potentialMaxInvestment = calculateMaxInvestment(homeValue, mortgageBalance);
-    if (potentialMaxInvestment < HEI_MIN_INVESTMENT) {
-      reasons.push(`Available equity must allow for a minimum investment of $${HEI_MIN_INVESTMENT.toLocaleString()}`);
-    }
-
-    combinedReasons = reasons;
-  }
+  // Only show combined reasons if NEITHER product qualifies (generic, without product names)
+  const combinedReasons = eitherEligible
+    ? []
+    : getCombinedIneligibilityReasons([slRules, heiRules], [slResult, heiResult], property);
 
   return {
     slEligible,
@@ -345,10 +417,46 @@ export function checkDualProductEligibility(
     slOfferAmount,
     heiMaxInvestment,
     higherAmount,
-    combinedReasons
+    slReasons: slResult.reasons,
+    heiReasons: heiResult.reasons,
+    combinedReasons,
+    heiStateOverride: heiResult.stateOverride,
+    payoffAmount: heiResult.payoffAmount,
+    slNetCash: slEligible ? slResult.netCashAmount : 0,
+    heiNetCash: heiEligible ? heiResult.netCashAmount : 0,
+    slBorrowerAdjustments: slResult.borrowerAdjustments,
+    heiBorrowerAdjustments: heiResult.borrowerAdjustments,
+    slTrace: slResult.trace,
+    heiTrace: heiResult.trace
   };
 }
 
+/**
+ * Describe a state override's terms, e.g. "Max CLTV 75%, Cost cap 17.9%"
+ */
+export function formatStateOverride(override: AppliedStateOverride): string {
+  return formatTerms(override.terms);
+}
+
+/**
+ * Describe a borrower adjustment, e.g. "Credit score below 580: Max CLTV 70%"
+ */
+export function formatBorrowerAdjustment(adjustment: BorrowerAdjustment): string {
+  const terms = adjustment.excludeProduct ? 'Not offered' : formatTerms(adjustment.terms || {});
+  return terms ? `${adjustment.label}: ${terms}` : adjustment.label;
+}
+
+function formatTerms(terms: StateTermsOverride): string {
+  const { maxLTV, minCashAmount, maxSharePercentage, exchangeRate, costCap } = terms;
+  const parts: string[] = [];
+  if (maxLTV !== undefined) parts.push(`Max CLTV ${maxLTV}%`);
+  if (minCashAmount !== undefined) parts.push(`Min investment ${formatCurrency(minCashAmount)}`);
+  if (maxSharePercentage !== undefined) parts.push(`Max share ${(maxSharePercentage * 100).toFixed(1)}%`);
+  if (exchangeRate !== undefined) parts.push(`Multiplier ${exchangeRate}x`);
+  if (costCap !== undefined) parts.push(`Cost cap ${(costCap * 100).toFixed(1)}%`);
+  return parts.join(', ');
+}
+
 /**
  * Format percentage
  */
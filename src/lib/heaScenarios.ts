@@ -0,0 +1,102 @@
+/**
+ * HEA Scenario Stress Testing
+ * Runs bear / base / bull (and custom) home price paths through the HEA cost logic
+ */
+
+import { calculateHEASchedule, HEAScheduleRow } from './heaCalculator';
+
+export type HEAScenarioId = 'bear' | 'base' | 'bull' | 'custom';
+
+export interface HEAScenario {
+  id: HEAScenarioId;
+  name: string;
+  // Annual HPA rates (0.03 = 3%) for years 1, 2, 3... The last rate repeats for later years.
+  hpaPath: number[];
+}
+
+export interface HEAScenarioResult {
+  scenario: HEAScenario;
+  schedule: HEAScheduleRow[];
+  // Row for the selected settlement year
+  settlement: HEAScheduleRow;
+  // First year the cost cap limits the payoff (null = never within 30 years)
+  capBindsFromYear: number | null;
+  capBindingYears: number[];
+}
+
+export interface HEAScenarioAnalysis {
+  results: HEAScenarioResult[];
+  payoffRange: {
+    min: number;
+    max: number;
+  };
+}
+
+// Bear: prices fall for three years, then recover slowly
+export const BEAR_SCENARIO: HEAScenario = {
+  id: 'bear',
+  name: 'Bear',
+  hpaPath: [-0.05, -0.03, -0.01, 0.01, 0.02]
+};
+
+export const BASE_SCENARIO: HEAScenario = {
+  id: 'base',
+  name: 'Base',
+  hpaPath: [0.03]
+};
+
+export const BULL_SCENARIO: HEAScenario = {
+  id: 'bull',
+  name: 'Bull',
+  hpaPath: [0.07, 0.06, 0.05]
+};
+
+export const DEFAULT_HEA_SCENARIOS: HEAScenario[] = [BEAR_SCENARIO, BASE_SCENARIO, BULL_SCENARIO];
+
+/**
+ * Parse a custom path typed as percentages, e.g. "-5, -2, 0, 3". Returns null if any entry is not a number.
+ */
+export function parseHPAPath(input: string): number[] | null {
+  const entries = input.split(',').map(entry => entry.trim().replace('%', '')).filter(Boolean);
+  if (entries.length === 0) return null;
+
+  const rates = entries.map(Number);
+  if (rates.some(rate => !Number.isFinite(rate) || rate <= -100)) return null;
+
+  return rates.map(rate => rate / 100);
+}
+
+/**
+ * Run each scenario through the HEA schedule and report the payoff range at the settlement year
+ */
+export function runHEAScenarios(
+  investment: number,
+  startingValue: number,
+  settlementYear: number,
+  scenarios: HEAScenario[] = DEFAULT_HEA_SCENARIOS,
+  mortgageBalance: number = 0,
+  state?: string
+): HEAScenarioAnalysis {
+  const results = scenarios.map(scenario => {
+    const schedule = calculateHEASchedule(investment, startingValue, scenario.hpaPath, mortgageBalance, state);
+    const capBindingYears = schedule.filter(row => row.isCapped).map(row => row.year);
+
+    return {
+      scenario,
+      schedule,
+      settlement: schedule[Math.min(Math.max(settlementYear, 1), schedule.length) - 1],
+      capBindsFromYear: capBindingYears.length > 0 ? capBindingYears[0] : null,
+      capBindingYears
+    };
+  });
+
+  const payoffs = results.map(result => result.settlement.payoff);
+
+  return {
+    results,
+    payoffRange: {
+      min: payoffs.length > 0 ? Math.min(...payoffs) : 0,
+      max: payoffs.length > 0 ? Math.max(...payoffs) : 0
+    }
+  };
+}
@@ -0,0 +1,87 @@
+/**
+ * Ineligibility Reason Codes
+ * Structured reasons returned by the eligibility engine and stored on submissions.
+ * Display text is produced separately by formatIneligibilityReason, so copy edits
+ * never change stored data.
+ */
+
+import type { ProductId } from './productRules.ts';
+
+export type IneligibilityReasonCode =
+  | 'STATE_NOT_ELIGIBLE'
+  | 'PROPERTY_TYPE_NOT_ELIGIBLE'
+  | 'OWNERSHIP_TYPE_NOT_ELIGIBLE'
+  | 'BORROWER_NOT_ELIGIBLE'
+  | 'HOME_VALUE_TOO_LOW'
+  | 'HOME_VALUE_TOO_HIGH'
+  | 'LTV_TOO_HIGH'
+  | 'INSUFFICIENT_EQUITY'
+  | 'PAYOFF_EXCEEDS_FUNDING';
+
+// `product` is omitted for combined reasons that apply across every product
+export type IneligibilityReason =
+  | { code: 'STATE_NOT_ELIGIBLE'; product?: ProductId; state: string; eligibleStates?: string[] }
+  | { code: 'PROPERTY_TYPE_NOT_ELIGIBLE'; product?: ProductId; propertyType: string; eligiblePropertyTypes?: string[] }
+  | { code: 'OWNERSHIP_TYPE_NOT_ELIGIBLE'; product?: ProductId; ownershipType: string }
+  // condition = label of the borrower adjustment that excludes the product
+  | { code: 'BORROWER_NOT_ELIGIBLE'; product?: ProductId; condition: string }
+  | { code: 'HOME_VALUE_TOO_LOW'; product?: ProductId; limit: number; actual: number }
+  | { code: 'HOME_VALUE_TOO_HIGH'; product?: ProductId; limit: number; actual: number }
+  | { code: 'LTV_TOO_HIGH'; product?: ProductId; limit: number; actual: number }
+  | { code: 'INSUFFICIENT_EQUITY'; product?: ProductId; limit: number; actual: number }
+  // limit = debt to pay off at closing, actual = gross funding available
+  | { code: 'PAYOFF_EXCEEDS_FUNDING'; product?: ProductId; limit: number; actual: number };
+
+export const PRODUCT_NAMES: Record<ProductId, string> = {
+  hei: 'HEI',
+  sl: 'Sale-Leaseback'
+};
+
+const money = (value: number) => `$${value.toLocaleString()}`;
+
+/**
+ * Human-readable text for a reason. Plain strings (submissions stored before
+ * reason codes existed) are passed through unchanged.
+ */
+export function formatIneligibilityReason(reason: IneligibilityReason | string): string {
+  if (typeof reason === 'string') return reason;
+
+  const product = reason.product ? PRODUCT_NAMES[reason.product] : null;
+  const forProduct = product ? ` for ${product}` : '';
+
+  switch (reason.code) {
+    case 'STATE_NOT_ELIGIBLE':
+      return product
+        ? `State not eligible for ${product} (requires: ${(reason.eligibleStates || []).join(', ')})`
+        : `${reason.state} is not eligible for StayFrank's solutions`;
+    case 'PROPERTY_TYPE_NOT_ELIGIBLE':
+      if (product && reason.eligiblePropertyTypes) {
+        return `Only ${reason.eligiblePropertyTypes.join(', ')} homes are eligible for ${product}`;
+      }
+      return `${reason.propertyType} properties are not eligible${forProduct}`;
+    case 'OWNERSHIP_TYPE_NOT_ELIGIBLE':
+      return product
+        ? `Properties owned by ${reason.ownershipType} are not eligible for ${product}. Must be personally owned or in a Trust`
+        : `Properties owned by ${reason.ownershipType} are not eligible`;
+    case 'BORROWER_NOT_ELIGIBLE':
+      return product
+        ? `${product} is not available: ${reason.condition}`
+        : `Not eligible for StayFrank's solutions: ${reason.condition}`;
+    case 'HOME_VALUE_TOO_LOW':
+      return `Home value must be at least ${money(reason.limit)}${forProduct}`;
+    case 'HOME_VALUE_TOO_HIGH':
+      return `Home value cannot exceed ${money(reason.limit)}${forProduct}`;
+    case 'LTV_TOO_HIGH':
+      return `LTV must be ${reason.limit}% or less${forProduct} (current: ${reason.actual.toFixed(1)}%)`;
+    case 'INSUFFICIENT_EQUITY':
+      return product
+        ? `Available equity must allow for a minimum of ${money(reason.limit)} for ${product}`
+        : `Available equity must allow for a minimum investment of ${money(reason.limit)}`;
+    case 'PAYOFF_EXCEEDS_FUNDING':
+      return `Funding${forProduct} (${money(Math.round(reason.actual))}) does not cover the ${money(reason.limit)} to be paid off at closing`;
+  }
+}
+
+export function formatIneligibilityReasons(reasons: (IneligibilityReason | string)[] | null | undefined): string[] {
+  return (reasons || []).map(formatIneligibilityReason);
+}
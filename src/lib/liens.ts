@@ -0,0 +1,73 @@
+/**
+ * Lien Stack
+ * Every debt secured by the property. CLTV and offer math use the total of the stack.
+ */
+
+export type LienType = 'first_mortgage' | 'second_mortgage' | 'heloc' | 'tax_lien' | 'judgment' | 'other';
+
+export interface Lien {
+  id: string;
+  type: LienType;
+  balance: number;
+  position: number; // 1 = first lien
+  // Must be cleared from the proceeds at closing
+  payoffAtClosing: boolean;
+  // Set for loans found in public records (see recordedLiens)
+  recordedDate?: string | null;
+  lender?: string | null;
+  // How the balance was estimated from the recorded loan (see mortgageBalance)
+  balanceBasis?: string | null;
+}
+
+export const LIEN_TYPE_LABELS: Record<LienType, string> = {
+  first_mortgage: 'First Mortgage',
+  second_mortgage: 'Second Mortgage',
+  heloc: 'HELOC',
+  tax_lien: 'Tax Lien',
+  judgment: 'Judgment',
+  other: 'Other Lien'
+};
+
+// Tax liens and judgments have to be cleared for title to transfer cleanly
+export const PAYOFF_REQUIRED_LIEN_TYPES: LienType[] = ['tax_lien', 'judgment'];
+
+let lienCounter = 0;
+
+export function createLien(type: LienType, balance: number, position: number): Lien {
+  lienCounter += 1;
+  return {
+    id: `lien-${Date.now()}-${lienCounter}`,
+    type,
+    balance,
+    position,
+    payoffAtClosing: PAYOFF_REQUIRED_LIEN_TYPES.includes(type)
+  };
+}
+
+/**
+ * Total balance of every lien on the property
+ */
+export function getTotalLienBalance(liens: Lien[]): number {
+  return liens.reduce((total, lien) => total + Math.max(0, lien.balance || 0), 0);
+}
+
+/**
+ * Balance the officer has marked to be retired from the proceeds at closing
+ */
+export function getPayoffAtClosingBalance(liens: Lien[]): number {
+  return getTotalLienBalance(liens.filter(lien => lien.payoffAtClosing));
+}
+
+/**
+ * Liens ordered by position (first lien first)
+ */
+export function sortLiens(liens: Lien[]): Lien[] {
+  return [...liens].sort((a, b) => a.position - b.position);
+}
+
+/**
+ * Combined loan-to-value across the full lien stack, as a percentage
+ */
+export function calculateCLTV(homeValue: number, liens: Lien[]): number {
+  return homeValue > 0 ? (getTotalLienBalance(liens) / homeValue) * 100 : 0;
+}
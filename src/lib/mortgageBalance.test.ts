@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { estimateLienBalance, formatBalanceBasis, getAmortizedBalance, getAssumedRate, sumBalanceEstimates } from './mortgageBalance';
+import type { RecordedLien } from './recordedLiens';
+
+const AS_OF = new Date('2026-03-15T00:00:00Z');
+
+const recordedLien = (overrides: Partial<RecordedLien> = {}): RecordedLien => ({
+  type: 'first_mortgage',
+  position: 1,
+  amount: 400000,
+  recordedDate: '2016-03-15',
+  lender: 'FIRST BANK NA',
+  loanType: 'CNV',
+  interestRate: 4,
+  termMonths: 360,
+  dueDate: '2046-04-01',
+  ...overrides
+});
+
+describe('getAmortizedBalance', () => {
+  it.each([
+    // amount, rate, term, elapsed, expected
+    [400000, 4, 360, 0, 400000],
+    [400000, 4, 360, 120, 315136],
+    [400000, 4, 360, 360, 0],
+    [120000, 0, 120, 60, 60000]
+  ])('%i at %f%% for %i months after %i payments', (amount, rate, term, elapsed, expected) => {
+    expect(Math.round(getAmortizedBalance(amount, rate, term, elapsed))).toBe(expected);
+  });
+});
+
+describe('getAssumedRate', () => {
+  it('uses the average rate for the origination year, clamped to the table', () => {
+    expect(getAssumedRate(2021)).toBe(2.96);
+    expect(getAssumedRate(1995)).toBe(8.05);
+    expect(getAssumedRate(2030)).toBe(6.6);
+  });
+});
+
+describe('estimateLienBalance', () => {
+  it('amortizes a fully recorded loan with a narrow band', () => {
+    const estimate = estimateLienBalance(recordedLien(), AS_OF);
+
+    expect(estimate.monthsElapsed).toBe(120);
+    expect(estimate.balance).toBe(315136);
+    expect(estimate.low).toBeLessThan(estimate.balance);
+    expect(estimate.high).toBeGreaterThan(estimate.balance);
+    expect(estimate.high - estimate.low).toBeLessThan(10000);
+    expect(estimate.confidence).toBe('high');
+  });
+
+  it('assumes the rate and term when they are not recorded and widens the band', () => {
+    const estimate = estimateLienBalance(recordedLien({ interestRate: null, termMonths: null }), AS_OF);
+
+    expect(estimate.rate).toBe(3.65);
+    expect(estimate.rateAssumed).toBe(true);
+    expect(estimate.termMonths).toBe(360);
+    expect(estimate.termAssumed).toBe(true);
+    expect(estimate.confidence).toBe('low');
+    // Low end amortizes over 15 years
+    expect(estimate.low).toBeLessThan(estimate.balance - 50000);
+  });
+
+  it('keeps credit lines at the line amount with a band down to zero', () => {
+    const estimate = estimateLienBalance(recordedLien({ type: 'heloc', amount: 50000, loanType: 'CL' }), AS_OF);
+
+    expect([estimate.balance, estimate.low, estimate.high]).toEqual([50000, 0, 50000]);
+    expect(estimate.confidence).toBe('low');
+  });
+
+  it('falls back to the original amount without a recording date', () => {
+    const estimate = estimateLienBalance(recordedLien({ recordedDate: null }), AS_OF);
+
+    expect(estimate.balance).toBe(400000);
+    expect(estimate.confidence).toBe('low');
+  });
+});
+
+describe('sumBalanceEstimates', () => {
+  it('adds the estimates and keeps the weakest confidence', () => {
+    const first = estimateLienBalance(recordedLien(), AS_OF);
+    const heloc = estimateLienBalance(recordedLien({ type: 'heloc', amount: 50000, loanType: 'CL' }), AS_OF);
+
+    expect(sumBalanceEstimates([first, heloc])).toEqual({
+      balance: first.balance + 50000,
+      low: first.low,
+      high: first.high + 50000,
+      confidence: 'low'
+    });
+    expect(sumBalanceEstimates([]).confidence).toBe('low');
+  });
+});
+
+describe('formatBalanceBasis', () => {
+  it('describes the loan and the assumptions behind the estimate', () => {
+    const lien = recordedLien({ interestRate: null });
+
+    expect(formatBalanceBasis(lien, estimateLienBalance(lien, AS_OF))).toBe('$400,000 loan recorded 2016-03-15 · 3.65% (assumed) · 30 yr');
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Mortgage Balance Estimate
+ * Public records only carry a loan's original amount. Amortizing each recorded loan from its
+ * recording date gives today's scheduled principal. Rate and term are often missing from the
+ * record, so each estimate carries a band: a low end (lower rate / shorter term, i.e. faster
+ * paydown) and a high end (higher rate / longer term), plus how much of it was assumed.
+ */
+
+import { formatCurrency } from './heaCalculator';
+import type { RecordedLien } from './recordedLiens';
+
+export type BalanceConfidence = 'high' | 'medium' | 'low';
+
+export interface BalanceEstimate {
+  balance: number;
+  low: number;
+  high: number;
+  confidence: BalanceConfidence;
+  rate: number; // annual %, as used
+  rateAssumed: boolean;
+  termMonths: number;
+  termAssumed: boolean;
+  monthsElapsed: number;
+}
+
+// Most residential mortgages are 30-year fixed
+export const DEFAULT_TERM_MONTHS = 360;
+
+// Unknown terms are banded down to a 15-year loan
+const SHORT_TERM_MONTHS = 180;
+
+// Band around the rate: wide when it is assumed from the origination year, narrow when recorded
+const ASSUMED_RATE_SPREAD = 1;
+const RECORDED_RATE_SPREAD = 0.25;
+
+// Average 30-year fixed rate by origination year (Freddie Mac PMMS annual averages)
+const AVERAGE_RATE_BY_YEAR: Record<number, number> = {
+  2000: 8.05, 2001: 6.97, 2002: 6.54, 2003: 5.83, 2004: 5.84,
+  2005: 5.87, 2006: 6.41, 2007: 6.34, 2008: 6.03, 2009: 5.04,
+  2010: 4.69, 2011: 4.45, 2012: 3.66, 2013: 3.98, 2014: 4.17,
+  2015: 3.85, 2016: 3.65, 2017: 3.99, 2018: 4.54, 2019: 3.94,
+  2020: 3.11, 2021: 2.96, 2022: 5.34, 2023: 6.81, 2024: 6.72,
+  2025: 6.6
+};
+
+const FIRST_RATE_YEAR = 2000;
+const LAST_RATE_YEAR = 2025;
+
+/**
+ * Typical 30-year fixed rate for a loan originated in the given year
+ */
+export function getAssumedRate(originationYear: number): number {
+  const year = Math.min(Math.max(originationYear, FIRST_RATE_YEAR), LAST_RATE_YEAR);
+  return AVERAGE_RATE_BY_YEAR[year];
+}
+
+/**
+ * Principal left after a number of scheduled monthly payments on a fixed-rate loan
+ */
+export function getAmortizedBalance(amount: number, annualRate: number, termMonths: number, monthsElapsed: number): number {
+  if (monthsElapsed <= 0) return amount;
+  if (monthsElapsed >= termMonths) return 0;
+
+  const r = annualRate / 100 / 12;
+  if (r <= 0) return amount * (1 - monthsElapsed / termMonths);
+
+  const growth = Math.pow(1 + r, termMonths);
+  return amount * (growth - Math.pow(1 + r, monthsElapsed)) / (growth - 1);
+}
+
+const monthsBetween = (from: Date, to: Date) =>
+  Math.max(0, (to.getUTCFullYear() - from.getUTCFullYear()) * 12 + (to.getUTCMonth() - from.getUTCMonth()));
+
+/**
+ * Today's principal balance of a recorded loan. Credit lines are revolving (usually
+ * interest-only while open), so their balance is anywhere up to the line amount.
+ */
+export function estimateLienBalance(lien: RecordedLien, asOf: Date = new Date()): BalanceEstimate {
+  const recorded = lien.recordedDate ? new Date(`${lien.recordedDate}T00:00:00Z`) : null;
+  const monthsElapsed = recorded ? monthsBetween(recorded, asOf) : 0;
+  const rateAssumed = !lien.interestRate;
+  const rate = lien.interestRate || getAssumedRate(recorded ? recorded.getUTCFullYear() : asOf.getUTCFullYear());
+  const termAssumed = !lien.termMonths;
+  const termMonths = lien.termMonths || DEFAULT_TERM_MONTHS;
+
+  if (lien.type === 'heloc') {
+    return { balance: lien.amount, low: 0, high: lien.amount, confidence: 'low', rate, rateAssumed, termMonths, termAssumed, monthsElapsed };
+  }
+
+  // Without a recording date we can't amortize - the original amount is the only figure we have
+  if (!recorded) {
+    return { balance: lien.amount, low: 0, high: lien.amount, confidence: 'low', rate, rateAssumed, termMonths, termAssumed, monthsElapsed };
+  }
+
+  const spread = rateAssumed ? ASSUMED_RATE_SPREAD : RECORDED_RATE_SPREAD;
+  const balance = getAmortizedBalance(lien.amount, rate, termMonths, monthsElapsed);
+  const low = getAmortizedBalance(lien.amount, Math.max(0, rate - spread), termAssumed ? SHORT_TERM_MONTHS : termMonths, monthsElapsed);
+  const high = getAmortizedBalance(lien.amount, rate + spread, termMonths, monthsElapsed);
+  const assumptions = Number(rateAssumed) + Number(termAssumed);
+
+  return {
+    balance: Math.round(balance),
+    low: Math.round(Math.min(low, balance)),
+    high: Math.round(Math.max(high, balance)),
+    confidence: assumptions === 0 ? 'high' : assumptions === 1 ? 'medium' : 'low',
+    rate,
+    rateAssumed,
+    termMonths,
+    termAssumed,
+    monthsElapsed
+  };
+}
+
+/**
+ * Combined estimate across several loans. Confidence is that of the weakest estimate.
+ */
+export function sumBalanceEstimates(estimates: BalanceEstimate[]): Pick<BalanceEstimate, 'balance' | 'low' | 'high' | 'confidence'> {
+  const order: BalanceConfidence[] = ['low', 'medium', 'high'];
+  return {
+    balance: estimates.reduce((total, estimate) => total + estimate.balance, 0),
+    low: estimates.reduce((total, estimate) => total + estimate.low, 0),
+    high: estimates.reduce((total, estimate) => total + estimate.high, 0),
+    confidence: estimates.length === 0
+      ? 'low'
+      : order[Math.min(...estimates.map(estimate => order.indexOf(estimate.confidence)))]
+  };
+}
+
+/**
+ * One-line basis for an estimate, e.g. "$400,000 loan recorded 2021-03-15 · 2.96% (assumed) · 30 yr"
+ */
+export function formatBalanceBasis(lien: RecordedLien, estimate: BalanceEstimate): string {
+  const parts = [`${formatCurrency(lien.amount)} ${lien.type === 'heloc' ? 'credit line' : 'loan'}`];
+  if (lien.recordedDate) parts[0] += ` recorded ${lien.recordedDate}`;
+  if (lien.type !== 'heloc' && lien.recordedDate) {
+    parts.push(`${estimate.rate}%${estimate.rateAssumed ? ' (assumed)' : ''}`);
+    parts.push(`${Math.round(estimate.termMonths / 12)} yr${estimate.termAssumed ? ' (assumed)' : ''}`);
+  }
+  return parts.join(' · ');
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import {
+  compareOffers,
+  formatOfferChange,
+  getOfferExpiration,
+  getReunderwriteRetryAt,
+  hasMaterialChange,
+  isOfferExpired,
+  type OfferSnapshot
+} from './offerRevisions';
+
+const offer = (overrides: Partial<OfferSnapshot> = {}): OfferSnapshot => ({
+  homeValue: 500000,
+  slEligible: true,
+  slOfferAmount: 150000,
+  heiEligible: true,
+  heiMaxInvestment: 100000,
+  guidelineVersion: 3,
+  ...overrides
+});
+
+describe('offer expiration', () => {
+  it('expires the configured number of days after underwriting', () => {
+    const expiresAt = getOfferExpiration(new Date('2026-01-01T12:00:00Z'), 30);
+    expect(expiresAt.toISOString()).toBe('2026-01-31T12:00:00.000Z');
+    expect(isOfferExpired(expiresAt.toISOString(), new Date('2026-01-31T11:59:59Z'))).toBe(false);
+    expect(isOfferExpired(expiresAt.toISOString(), new Date('2026-01-31T12:00:00Z'))).toBe(true);
+    expect(isOfferExpired(null)).toBe(false);
+  });
+
+  it.each([
+    [1, '2026-01-02T12:00:00.000Z'],
+    [2, '2026-01-03T12:00:00.000Z'],
+    [3, '2026-01-05T12:00:00.000Z'],
+    [10, '2026-01-08T12:00:00.000Z']
+  ])('backs off a submission after %i failed re-underwriting runs', (failures, retryAt) => {
+    expect(getReunderwriteRetryAt(new Date('2026-01-01T12:00:00Z'), failures).toISOString()).toBe(retryAt);
+  });
+});
+
+describe('compareOffers', () => {
+  it('reports nothing when the offer is unchanged to the dollar', () => {
+    expect(compareOffers(offer(), offer({ heiMaxInvestment: 100000.4 }))).toEqual([]);
+  });
+
+  it('treats small amount moves and value changes as context', () => {
+    const changes = compareOffers(offer(), offer({ homeValue: 510000, heiMaxInvestment: 102000 }));
+    expect(changes.map(change => change.field)).toEqual(['heiMaxInvestment', 'homeValue']);
+    expect(hasMaterialChange(changes)).toBe(false);
+  });
+
+  it('flags large amount moves and eligibility flips as material', () => {
+    const drop = compareOffers(offer(), offer({ heiMaxInvestment: 90000 }));
+    expect(hasMaterialChange(drop)).toBe(true);
+
+    const lost = compareOffers(offer(), offer({ slEligible: false, slOfferAmount: null, guidelineVersion: 4 }));
+    expect(lost.filter(change => change.isMaterial).map(change => change.field)).toEqual(['slEligible', 'slOfferAmount']);
+    expect(lost.find(change => change.field === 'guidelineVersion')?.isMaterial).toBe(false);
+  });
+});
+
+describe('formatOfferChange', () => {
+  it('describes eligibility and amount changes', () => {
+    const [eligibility, amount] = compareOffers(offer(), offer({ slEligible: false, slOfferAmount: null }));
+    expect(formatOfferChange(eligibility)).toBe('Sale-Leaseback: no longer eligible');
+    expect(formatOfferChange(amount)).toBe('Sale-Leaseback offer: $150,000 → none');
+    const [hei] = compareOffers(offer(), offer({ heiMaxInvestment: 98000 }));
+    expect(formatOfferChange(hei)).toBe('HEI max investment: $100,000 → $98,000');
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Offer Revisions
+ * An offer is good for a fixed window. After that the reunderwrite-offers job re-runs the
+ * property lookup and eligibility, stores the result as a new revision and flags changes
+ * the submitting officer needs to know about. Shared with the edge functions (Deno).
+ */
+
+import { formatCurrency } from './heaCalculator.ts';
+
+// Days an offer stays valid before it is re-underwritten
+export const OFFER_VALIDITY_DAYS = 30;
+
+// A move in an offer amount of at least this much (percent of the previous amount) is material
+export const MATERIAL_OFFER_CHANGE_PERCENT = 5;
+
+// A submission that fails to re-underwrite is retried after 1, 2, 4... days, at most this many apart
+export const REUNDERWRITE_MAX_BACKOFF_DAYS = 7;
+
+export type OfferRevisionSource = 'submission' | 'reunderwrite';
+
+// The values a revision records and compares
+export interface OfferSnapshot {
+  homeValue: number;
+  slEligible: boolean;
+  slOfferAmount: number | null;
+  heiEligible: boolean;
+  heiMaxInvestment: number | null;
+  guidelineVersion: number | null;
+}
+
+export type OfferChangeField = keyof OfferSnapshot;
+
+export interface OfferChange {
+  field: OfferChangeField;
+  previous: boolean | number | null;
+  current: boolean | number | null;
+  // Eligibility flips and large amount moves are material; value and guideline changes are context
+  isMaterial: boolean;
+}
+
+const OFFER_CHANGE_FIELDS: OfferChangeField[] = ['slEligible', 'slOfferAmount', 'heiEligible', 'heiMaxInvestment', 'homeValue', 'guidelineVersion'];
+
+const AMOUNT_FIELDS: OfferChangeField[] = ['slOfferAmount', 'heiMaxInvestment'];
+
+const CHANGE_LABELS: Record<OfferChangeField, string> = {
+  homeValue: 'Home value',
+  slEligible: 'Sale-Leaseback',
+  slOfferAmount: 'Sale-Leaseback offer',
+  heiEligible: 'HEI',
+  heiMaxInvestment: 'HEI max investment',
+  guidelineVersion: 'Guideline version'
+};
+
+/**
+ * When an offer underwritten at `from` expires
+ */
+export function getOfferExpiration(from: Date, validityDays: number = OFFER_VALIDITY_DAYS): Date {
+  return new Date(from.getTime() + validityDays * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Whether the offer has passed its expiration (offers without one never expire)
+ */
+export function isOfferExpired(expiresAt: string | null | undefined, now: Date = new Date()): boolean {
+  return !!expiresAt && new Date(expiresAt).getTime() <= now.getTime();
+}
+
+/**
+ * When to retry a submission after its nth consecutive re-underwriting failure, so rows that
+ * keep failing leave the front of the job's queue
+ */
+export function getReunderwriteRetryAt(from: Date, failures: number): Date {
+  const backoffDays = Math.min(2 ** Math.max(0, failures - 1), REUNDERWRITE_MAX_BACKOFF_DAYS);
+  return new Date(from.getTime() + backoffDays * 24 * 60 * 60 * 1000);
+}
+
+const isMaterialChange = (field: OfferChangeField, previous: OfferChange['previous'], current: OfferChange['current']) => {
+  if (field === 'slEligible' || field === 'heiEligible') return true;
+  if (!AMOUNT_FIELDS.includes(field)) return false;
+  // An amount appearing or disappearing goes with an eligibility flip
+  if (typeof previous !== 'number' || typeof current !== 'number') return true;
+  if (previous === 0) return current !== 0;
+  return (Math.abs(current - previous) / previous) * 100 >= MATERIAL_OFFER_CHANGE_PERCENT;
+};
+
+/**
+ * Fields that differ between two revisions of an offer (amounts are compared to the dollar)
+ */
+export function compareOffers(previous: OfferSnapshot, current: OfferSnapshot): OfferChange[] {
+  return OFFER_CHANGE_FIELDS
+    .filter(field => {
+      const a = previous[field] ?? null;
+      const b = current[field] ?? null;
+      if (typeof a === 'number' && typeof b === 'number') return Math.round(a) !== Math.round(b);
+      return a !== b;
+    })
+    .map(field => ({
+      field,
+      previous: previous[field] ?? null,
+      current: current[field] ?? null,
+      isMaterial: isMaterialChange(field, previous[field] ?? null, current[field] ?? null)
+    }));
+}
+
+export function hasMaterialChange(changes: OfferChange[]): boolean {
+  return changes.some(change => change.isMaterial);
+}
+
+const formatChangeValue = (field: OfferChangeField, value: OfferChange['previous']) => {
+  if (value === null) return 'none';
+  if (typeof value === 'boolean') return value ? 'eligible' : 'not eligible';
+  return field === 'guidelineVersion' ? `v${value}` : formatCurrency(value);
+};
+
+/**
+ * Display text for a change, e.g. "HEI max investment: $120,000 → $98,000"
+ */
+export function formatOfferChange(change: OfferChange): string {
+  if (change.field === 'slEligible' || change.field === 'heiEligible') {
+    return `${CHANGE_LABELS[change.field]}: ${change.current ? 'now eligible' : 'no longer eligible'}`;
+  }
+  return `${CHANGE_LABELS[change.field]}: ${formatChangeValue(change.field, change.previous)} → ${formatChangeValue(change.field, change.current)}`;
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { classifyOwner, detectOwnership, parseOwnerNames } from './ownerNames';
+
+describe('parseOwnerNames', () => {
+  it.each([
+    ['JOHN SMITH', ['JOHN SMITH']],
+    ['SMITH JOHN, SMITH JANE', ['SMITH JOHN', 'SMITH JANE']],
+    ['JOHN & JANE SMITH', ['JOHN SMITH', 'JANE SMITH']],
+    ['SMITH JOHN & JANE', ['SMITH JOHN', 'SMITH JANE']],
+    ['JOHN SMITH AND MARY JONES; ACME HOLDINGS LLC', ['JOHN SMITH', 'MARY JONES', 'ACME HOLDINGS LLC']],
+    ['ACME, INC.', ['ACME, INC.']],
+    ['SMITH & CO.', ['SMITH & CO.']],
+    ['SMITH FAMILY TRUST, SMITH FAMILY TRUST', ['SMITH FAMILY TRUST']],
+    ['Unknown Owner', []]
+  ])('%s', (ownerNames, expected) => {
+    expect(parseOwnerNames(ownerNames).map(owner => owner.name)).toEqual(expected);
+  });
+});
+
+describe('classifyOwner', () => {
+  it.each([
+    ['SMITH JOHN A', 'Personal', 0.9],
+    ['MADONNA', 'Personal', 0.6],
+    ['ACME HOLDINGS L.L.C.', 'LLC', 0.98],
+    ['SMITH LIVING TRUST LLC', 'LLC', 0.98],
+    ['SMITH JOHN TR', 'Trust', 0.75],
+    ['SMITH JOHN TTEE', 'Trust', 0.9],
+    ['ACME LTD', 'Corporation', 0.7],
+    ['ACME HOLDINGS', 'Corporation', 0.5],
+    ['ACME PARTNERS', 'Partnership', 0.85]
+  ])('%s -> %s', (name, entityType, confidence) => {
+    const owner = classifyOwner(name);
+    expect(owner.entityType).toBe(entityType);
+    expect(owner.confidence).toBe(confidence);
+  });
+});
+
+describe('detectOwnership', () => {
+  it('is confident about plain individuals', () => {
+    const result = detectOwnership('SMITH JOHN & JANE');
+    expect(result.ownershipType).toBe('Personal');
+    expect(result.needsReview).toBe(false);
+  });
+
+  it('lets an entity owner decide the type', () => {
+    const result = detectOwnership('JOHN SMITH, SMITH FAMILY TRUST');
+    expect(result.ownershipType).toBe('Trust');
+    expect(result.owners.map(owner => owner.entityType)).toEqual(['Personal', 'Trust']);
+    expect(result.needsReview).toBe(false);
+  });
+
+  it('asks for review when any owner is a weak read', () => {
+    expect(detectOwnership('SMITH JOHN TR').needsReview).toBe(true);
+    expect(detectOwnership('JOHN SMITH, ACME HOLDINGS').needsReview).toBe(true);
+    expect(detectOwnership('').needsReview).toBe(true);
+  });
+
+  it.each([
+    ['SMITH FAMILY TRUST; ACME CORP', 'Corporation'],
+    ['ACME HOLDINGS LLC; SMITH FAMILY TRUST', 'LLC'],
+    ['SMITH FAMILY TRUST / OAK PARTNERS LP', 'Partnership']
+  ])('ranks a business co-owner of %s ahead of the trust and asks for review', (ownerNames, ownershipType) => {
+    const result = detectOwnership(ownerNames);
+    expect(result.ownershipType).toBe(ownershipType);
+    expect(result.needsReview).toBe(true);
+  });
+});
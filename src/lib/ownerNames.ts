@@ -0,0 +1,170 @@
+/**
+ * Owner Names
+ * Splits ATTOM owner strings ("SMITH JOHN & JANE; ACME HOLDINGS LLC") into individual owners
+ * and classifies each one by whole-word entity markers, with a confidence score. Substring
+ * matching misread names like PHILLIPS (LP) or TRAN (TR), so only standalone words count.
+ */
+
+export type OwnerEntityType = 'Personal' | 'LLC' | 'Trust' | 'Corporation' | 'Partnership';
+
+export interface ParsedOwner {
+  name: string;
+  entityType: OwnerEntityType;
+  // 0-1: how sure the classification is
+  confidence: number;
+  // Word or phrase that decided the type (undefined for individuals)
+  marker?: string;
+}
+
+export interface OwnershipDetection {
+  owners: ParsedOwner[];
+  ownershipType: OwnerEntityType;
+  confidence: number;
+  // Below OWNERSHIP_REVIEW_THRESHOLD - the officer should confirm the ownership type
+  needsReview: boolean;
+}
+
+// Classifications below this confidence are shown to the officer to confirm
+export const OWNERSHIP_REVIEW_THRESHOLD = 0.8;
+
+interface EntityMarker {
+  words: string[]; // consecutive normalized words
+  entityType: OwnerEntityType;
+  confidence: number;
+}
+
+// Checked in this order when a name has more than one marker ("SMITH LIVING TRUST LLC" is the LLC)
+const ENTITY_PRECEDENCE: OwnerEntityType[] = ['LLC', 'Trust', 'Corporation', 'Partnership'];
+
+// Checked in this order across owners: any business co-owner outranks a trust, since the products
+// can't take a business owner on title ("SMITH FAMILY TRUST; ACME CORP" is the corporation)
+const OWNER_PRECEDENCE: OwnerEntityType[] = ['LLC', 'Corporation', 'Partnership', 'Trust'];
+
+const ENTITY_MARKERS: EntityMarker[] = [
+  { words: ['LLC'], entityType: 'LLC', confidence: 0.98 },
+  { words: ['LIMITED', 'LIABILITY'], entityType: 'LLC', confidence: 0.98 },
+  { words: ['TRUST'], entityType: 'Trust', confidence: 0.95 },
+  { words: ['TRUSTEE'], entityType: 'Trust', confidence: 0.95 },
+  { words: ['TRUSTEES'], entityType: 'Trust', confidence: 0.95 },
+  { words: ['TTEE'], entityType: 'Trust', confidence: 0.9 },
+  { words: ['TRS'], entityType: 'Trust', confidence: 0.75 },
+  // County records abbreviate trustee as TR; it is also a name fragment, so confirm it
+  { words: ['TR'], entityType: 'Trust', confidence: 0.75 },
+  { words: ['INC'], entityType: 'Corporation', confidence: 0.95 },
+  { words: ['INCORPORATED'], entityType: 'Corporation', confidence: 0.95 },
+  { words: ['CORP'], entityType: 'Corporation', confidence: 0.95 },
+  { words: ['CORPORATION'], entityType: 'Corporation', confidence: 0.95 },
+  { words: ['COMPANY'], entityType: 'Corporation', confidence: 0.85 },
+  { words: ['CO'], entityType: 'Corporation', confidence: 0.8 },
+  { words: ['LTD'], entityType: 'Corporation', confidence: 0.7 },
+  { words: ['LP'], entityType: 'Partnership', confidence: 0.95 },
+  { words: ['LLP'], entityType: 'Partnership', confidence: 0.95 },
+  { words: ['LLLP'], entityType: 'Partnership', confidence: 0.95 },
+  { words: ['LIMITED', 'PARTNERSHIP'], entityType: 'Partnership', confidence: 0.95 },
+  { words: ['PARTNERSHIP'], entityType: 'Partnership', confidence: 0.95 },
+  { words: ['PARTNERS'], entityType: 'Partnership', confidence: 0.85 }
+];
+
+// Words that suggest a business even without a legal suffix ("ACME HOLDINGS")
+const BUSINESS_WORDS = ['HOLDINGS', 'PROPERTIES', 'INVESTMENTS', 'INVESTORS', 'ENTERPRISES', 'GROUP', 'CAPITAL', 'REALTY', 'VENTURES', 'MANAGEMENT', 'ASSOCIATES', 'BANK', 'CHURCH', 'FUND'];
+
+// A piece after a comma that only continues the previous name ("ACME, INC.", "SMITH JOHN, JR")
+const NAME_CONTINUATIONS = ['INC', 'LLC', 'LP', 'LLP', 'LTD', 'CO', 'CORP', 'JR', 'SR', 'II', 'III', 'IV'];
+
+// Uppercase words with dots dropped ("L.L.C." -> "LLC") and other punctuation as separators
+const normalizeWords = (name: string) =>
+  name.toUpperCase().replace(/\./g, '').split(/[^A-Z0-9]+/).filter(Boolean);
+
+const containsWords = (words: string[], phrase: string[]) =>
+  words.some((_, i) => phrase.every((word, j) => words[i + j] === word));
+
+const isEntityName = (name: string) => {
+  const words = normalizeWords(name);
+  return ENTITY_MARKERS.some(marker => containsWords(words, marker.words));
+};
+
+/**
+ * Entity type of a single owner name
+ */
+export function classifyOwner(name: string): ParsedOwner {
+  const words = normalizeWords(name);
+  const matches = ENTITY_MARKERS.filter(marker => containsWords(words, marker.words));
+
+  if (matches.length > 0) {
+    const entityType = ENTITY_PRECEDENCE.find(type => matches.some(marker => marker.entityType === type))!;
+    const best = matches
+      .filter(marker => marker.entityType === entityType)
+      .reduce((a, b) => (b.confidence > a.confidence ? b : a));
+    return { name, entityType, confidence: best.confidence, marker: best.words.join(' ') };
+  }
+
+  const businessWord = words.find(word => BUSINESS_WORDS.includes(word));
+  if (businessWord) {
+    // Probably an entity, but the kind can't be told from the name
+    return { name, entityType: 'Corporation', confidence: 0.5, marker: businessWord };
+  }
+
+  // Individuals are two to four plain words ("SMITH JOHN A")
+  const looksPersonal = words.length >= 2 && words.length <= 4 && words.every(word => /^[A-Z]+$/.test(word));
+  return { name, entityType: 'Personal', confidence: looksPersonal ? 0.9 : 0.6 };
+}
+
+// "JOHN & JANE SMITH" -> JOHN SMITH, JANE SMITH; "SMITH JOHN & JANE" (surname first) -> SMITH JOHN, SMITH JANE
+const splitJointIndividuals = (segment: string): string[] => {
+  const parts = segment.split(/\s+(?:&|AND)\s+/i).map(part => part.trim()).filter(Boolean);
+  if (parts.length < 2) return parts;
+
+  const first = parts[0].split(/\s+/);
+  const last = parts[parts.length - 1].split(/\s+/);
+  return parts.map(part => {
+    if (part.includes(' ')) return part;
+    if (first.length > 1) return `${first[0]} ${part}`; // surname-first record
+    if (last.length > 1) return `${part} ${last[last.length - 1]}`;
+    return part;
+  });
+};
+
+/**
+ * Individual owners and entities in an ATTOM owner string. Owners are separated by
+ * commas, semicolons or slashes; joint individuals by "&" or "AND".
+ */
+export function parseOwnerNames(ownerNames: string): ParsedOwner[] {
+  const segments: string[] = [];
+  ownerNames.split(/[;/]|,/).forEach(piece => {
+    const segment = piece.trim();
+    if (!segment) return;
+    const words = normalizeWords(segment);
+    if (segments.length > 0 && words.length > 0 && words.every(word => NAME_CONTINUATIONS.includes(word))) {
+      segments[segments.length - 1] = `${segments[segments.length - 1]}, ${segment}`;
+    } else {
+      segments.push(segment);
+    }
+  });
+
+  const names = segments.flatMap(segment => (isEntityName(segment) ? [segment] : splitJointIndividuals(segment)));
+  // De-duplicate (owner1 and owner2 often repeat the same entity)
+  const unique = names.filter((name, i) => names.findIndex(other => other.toUpperCase() === name.toUpperCase()) === i);
+  return unique.filter(name => !/^UNKNOWN( OWNER)?$/i.test(name)).map(classifyOwner);
+}
+
+/**
+ * Ownership type for the property: the highest-precedence entity among the owners,
+ * or Personal when every owner is an individual. Mixed entity types always go to review.
+ */
+export function detectOwnership(ownerNames: string): OwnershipDetection {
+  const owners = parseOwnerNames(ownerNames);
+  if (owners.length === 0) {
+    return { owners, ownershipType: 'Personal', confidence: 0, needsReview: true };
+  }
+
+  const entityTypes = OWNER_PRECEDENCE.filter(type => owners.some(owner => owner.entityType === type));
+  // One weak read anywhere means the officer should look (a low-confidence individual may be an entity)
+  const confidence = Math.min(...owners.map(owner => owner.confidence));
+
+  return {
+    owners,
+    ownershipType: entityTypes[0] ?? 'Personal',
+    confidence,
+    needsReview: confidence < OWNERSHIP_REVIEW_THRESHOLD || entityTypes.length > 1
+  };
+}
@@ -0,0 +1,108 @@
+/**
+ * HEI vs. Sale-Leaseback Comparison
+ * Puts both offers on the same footing for a chosen exit year
+ */
+
+import { calculateHEACost, checkDualProductEligibility } from './heaCalculator';
+import { calculateSaleLeasebackOffer, SaleLeasebackOffer } from './slCalculator';
+import type { BorrowerProfile, ProductId } from './productRules';
+
+export interface ProductComparisonInput {
+  homeValue: number;
+  mortgageBalance: number;
+  state: string;
+  propertyType: string;
+  ownershipType: string;
+  exitYear: number;
+  hpaRate: number; // e.g. 0.03
+  // Lien balance retired from the proceeds at closing (see liens)
+  payoffAtClosing?: number;
+  borrower?: BorrowerProfile;
+}
+
+export interface ProductComparisonColumn {
+  productId: ProductId;
+  cashToday: number;
+  monthlyObligation: number;
+  // Everything the homeowner pays to exit at the chosen year, less the cash received
+  costAtExit: number;
+  // costAtExit per dollar of cash today
+  costPerDollar: number;
+  retainsOwnership: boolean;
+  // Share of the home's future value the homeowner keeps (1 = all of it)
+  homeownerAppreciationShare: number;
+  notes: string[];
+}
+
+export interface ProductComparison {
+  exitYear: number;
+  hei: ProductComparisonColumn;
+  sl: ProductComparisonColumn;
+  recommended: ProductId;
+  recommendationReason: string;
+}
+
+/**
+ * Compare both products when both qualify. Returns null if either product is ineligible.
+ */
+export function compareProducts(input: ProductComparisonInput): ProductComparison | null {
+  const { homeValue, mortgageBalance, state, propertyType, ownershipType, exitYear, hpaRate, payoffAtClosing = 0, borrower } = input;
+  const dual = checkDualProductEligibility(homeValue, mortgageBalance, state, propertyType, ownershipType, undefined, payoffAtClosing, borrower);
+  if (!dual.heiEligible || !dual.slEligible) return null;
+
+  // ---- HEI: lump sum today, repaid from the home at exit ----
+  const heaCost = calculateHEACost(dual.heiMaxInvestment, homeValue, exitYear, hpaRate, state);
+  const unlockShare = Math.min(1, (dual.heiMaxInvestment / homeValue) * heaCost.multiplier);
+  // Liens paid at closing come out of the investment, as in the headline offer
+  const hei: ProductComparisonColumn = {
+    productId: 'hei',
+    cashToday: dual.heiNetCash,
+    monthlyObligation: 0,
+    costAtExit: heaCost.totalCost,
+    costPerDollar: dual.heiNetCash > 0 ? heaCost.totalCost / dual.heiNetCash : Infinity,
+    retainsOwnership: true,
+    homeownerAppreciationShare: 1 - unlockShare,
+    notes: [
+      dual.payoffAmount > 0 ? 'Liens paid at closing from the investment; other mortgage payments continue' : 'Existing mortgage payments continue',
+      heaCost.isCapped ? `Payoff limited by the ${(heaCost.costCap * 100).toFixed(1)}% cost cap` : 'Payoff is the investor share of the ending value'
+    ]
+  };
+
+  // ---- Sale-Leaseback: sell today, rent, optionally buy back ----
+  const slOffer = calculateSaleLeasebackOffer(homeValue, mortgageBalance, state, propertyType, ownershipType, payoffAtClosing, borrower);
+  const sl = buildLeasebackColumn(slOffer, exitYear);
+
+  // Lowest cost per dollar wins; HEI on a tie since the homeowner keeps title
+  const recommended: ProductId = sl.costPerDollar < hei.costPerDollar ? 'sl' : 'hei';
+  const recommendationReason = recommended === 'hei'
+    ? `HEI costs less per dollar received by year ${exitYear} and the homeowner keeps title`
+    : `Sale-Leaseback costs less per dollar received by year ${exitYear}`;
+
+  return { exitYear, hei, sl, recommended, recommendationReason };
+}
+
+function buildLeasebackColumn(offer: SaleLeasebackOffer, exitYear: number): ProductComparisonColumn {
+  const rentPaid = offer.annualRent * exitYear;
+  const sellingCosts = offer.closingCosts + offer.transferTaxes;
+  const buyback = offer.buybackSchedule.find(option => option.year === exitYear);
+
+  // With a buyback the homeowner also pays the premium over the purchase price to get the home back
+  const buybackPremium = buyback ? buyback.price - offer.purchasePrice : 0;
+  const costAtExit = rentPaid + sellingCosts + buybackPremium;
+
+  return {
+    productId: 'sl',
+    cashToday: offer.netCashToSeller,
+    monthlyObligation: offer.monthlyRent,
+    costAtExit,
+    costPerDollar: offer.netCashToSeller > 0 ? costAtExit / offer.netCashToSeller : Infinity,
+    retainsOwnership: false,
+    homeownerAppreciationShare: 0,
+    notes: [
+      'Existing mortgage is paid off at closing',
+      buyback
+        ? `Includes buying the home back in year ${exitYear}`
+        : `No buyback option in year ${exitYear} - homeowner remains a renter`
+    ]
+  };
+}
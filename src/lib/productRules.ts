@@ -0,0 +1,678 @@
+/**
+ * Product Rules Engine
+ * Single source of truth for HEI and Sale-Leaseback underwriting guidelines.
+ * Every eligibility check in the app evaluates against these rule sets.
+ */
+
+import type { IneligibilityReason, IneligibilityReasonCode } from './ineligibilityReasons.ts';
+import type { CashCap, EligibilityTrace, RuleCheck } from './eligibilityTrace.ts';
+
+export type ProductId = 'hei' | 'sl';
+
+// HEI: min of CLTV headroom, max share / exchange rate, and an absolute cap
+export interface EquityShareFormula {
+  type: 'equity_share';
+  maxSharePercentage: number;
+  exchangeRate: number;
+  maxAmount: number;
+  costCap?: number; // annualized cost cap on the payoff, e.g. 0.199
+}
+
+// Sale-Leaseback: fixed percentage of value, less existing debt
+export interface PercentOfValueFormula {
+  type: 'percent_of_value';
+  percentage: number;
+}
+
+/**
+ * How a product turns home value and existing debt into available cash
+ */
+export type CashFormula = EquityShareFormula | PercentOfValueFormula;
+
+/**
+ * Sale-Leaseback offer terms: costs out of the purchase price, rent and repurchase pricing.
+ * Percentages are fractions (0.02 = 2%).
+ */
+export interface LeasebackTerms {
+  closingCostPercentage: number; // of purchase price
+  transferTaxPercentage: number; // of purchase price
+  capRate: number; // annual rent as a share of purchase price
+  buybackAppreciation: number; // annual increase in the repurchase price
+  buybackYears: number; // years the repurchase option is offered
+}
+
+/**
+ * Terms that replace a product's national defaults in one state.
+ * Unset fields keep the national value. Share, exchange rate and cost cap only apply to HEI.
+ */
+export interface StateTermsOverride {
+  maxLTV?: number;
+  minCashAmount?: number;
+  maxSharePercentage?: number;
+  exchangeRate?: number;
+  costCap?: number;
+}
+
+// The override that was applied to a result, and the state it came from
+export interface AppliedStateOverride {
+  state: string;
+  terms: StateTermsOverride;
+}
+
+// Credit score ranges, best first (values match the credit score options collected per owner)
+export type CreditTier = '620_plus' | '580_620' | '550_580' | 'below_550';
+
+export const CREDIT_TIERS: CreditTier[] = ['620_plus', '580_620', '550_580', 'below_550'];
+
+/**
+ * What we know about the borrower. Unknown answers never trigger an adjustment.
+ */
+export interface BorrowerProfile {
+  creditTier?: CreditTier; // lowest tier across owners
+  isEmployed?: boolean;
+  hasLatePayments?: boolean; // mortgage payments in the last 12 months
+}
+
+/**
+ * A borrower condition and how it changes a product's terms. Every set field of
+ * `when` must match. Terms only tighten: the most restrictive matching value wins.
+ */
+export interface BorrowerAdjustment {
+  id: string;
+  label: string; // e.g. "Credit score below 580"
+  when: {
+    creditTiers?: CreditTier[];
+    isEmployed?: boolean;
+    hasLatePayments?: boolean;
+  };
+  terms?: Pick<StateTermsOverride, 'maxLTV' | 'minCashAmount' | 'maxSharePercentage'>;
+  // The product is not offered at all (e.g. SL-only when there are late payments)
+  excludeProduct?: boolean;
+}
+
+export interface ProductRuleSet {
+  id: ProductId;
+  name: string;
+  eligibleStates: string[];
+  // When set, ONLY these property types qualify
+  eligiblePropertyTypes?: string[];
+  // Property types that never qualify
+  ineligiblePropertyTypes?: string[];
+  ineligibleOwnershipTypes: string[];
+  minHomeValue: number;
+  maxHomeValue: number;
+  maxLTV: number; // percent, e.g. 80
+  minCashAmount: number; // 0 = no minimum
+  cashFormula: CashFormula;
+  // Keyed by state abbreviation
+  stateOverrides?: Record<string, StateTermsOverride>;
+  // Sale-Leaseback only
+  leasebackTerms?: LeasebackTerms;
+  borrowerAdjustments?: BorrowerAdjustment[];
+}
+
+export interface PropertyInput {
+  homeValue: number;
+  mortgageBalance: number;
+  state: string;
+  propertyType: string;
+  // Omit to skip the ownership check
+  ownershipType?: string;
+  // Portion of mortgageBalance retired from the proceeds at closing (0 = all debt remains)
+  payoffAtClosing?: number;
+  // Omit to skip borrower adjustments
+  borrower?: BorrowerProfile;
+}
+
+export interface ProductEligibilityResult {
+  productId: ProductId;
+  isEligible: boolean;
+  // Gross funding; equals netCashAmount when nothing is paid off at closing
+  cashAmount: number;
+  payoffAmount: number;
+  netCashAmount: number;
+  // Post-closing LTV (debt that remains after payoffs)
+  ltv: number;
+  reasons: IneligibilityReason[];
+  stateOverride: AppliedStateOverride | null;
+  borrowerAdjustments: BorrowerAdjustment[];
+  trace: EligibilityTrace;
+}
+
+export const HEI_CASH_FORMULA: EquityShareFormula = {
+  type: 'equity_share',
+  maxSharePercentage: 0.499,
+  exchangeRate: 2.0,
+  maxAmount: 500000,
+  costCap: 0.199
+};
+
+export const SL_CASH_FORMULA: PercentOfValueFormula = {
+  type: 'percent_of_value',
+  percentage: 0.70
+};
+
+export const SL_LEASEBACK_TERMS: LeasebackTerms = {
+  closingCostPercentage: 0.02,
+  transferTaxPercentage: 0.01,
+  capRate: 0.07,
+  buybackAppreciation: 0.03,
+  buybackYears: 5
+};
+
+export const HEI_BORROWER_ADJUSTMENTS: BorrowerAdjustment[] = [
+  {
+    id: 'credit_below_620',
+    label: 'Credit score below 620',
+    when: { creditTiers: ['580_620', '550_580', 'below_550'] },
+    terms: { maxLTV: 75 }
+  },
+  {
+    id: 'credit_below_580',
+    label: 'Credit score below 580',
+    when: { creditTiers: ['550_580', 'below_550'] },
+    terms: { maxLTV: 70 }
+  },
+  {
+    id: 'not_employed',
+    label: 'Not currently employed',
+    when: { isEmployed: false },
+    terms: { maxLTV: 75 }
+  },
+  {
+    id: 'late_payments',
+    label: 'Late mortgage payments in the last 12 months',
+    when: { hasLatePayments: true },
+    excludeProduct: true
+  }
+];
+
+// Home Equity Investment (Unlock's coverage)
+export const HEI_RULE_SET: ProductRuleSet = {
+  id: 'hei',
+  name: 'HEI',
+  eligibleStates: [
+    'AZ', 'CA', 'FL', 'HI', 'ID', 'IN', 'KY', 'MI', 'MO', 'MT',
+    'NV', 'NH', 'NJ', 'NM', 'NC', 'OH', 'OR', 'PA', 'SC', 'TN',
+    'UT', 'VA', 'DC', 'WI', 'WY'
+  ],
+  ineligiblePropertyTypes: ['Manufactured', 'Apartment', 'Land'],
+  ineligibleOwnershipTypes: ['LLC', 'Corporation', 'Partnership'],
+  minHomeValue: 175000,
+  maxHomeValue: 3000000,
+  maxLTV: 80,
+  minCashAmount: 15000,
+  cashFormula: HEI_CASH_FORMULA,
+  borrowerAdjustments: HEI_BORROWER_ADJUSTMENTS
+};
+
+// StayFrank Sell & Stay
+export const SL_RULE_SET: ProductRuleSet = {
+  id: 'sl',
+  name: 'Sale-Leaseback',
+  eligibleStates: ['AZ', 'NV', 'CA', 'CO', 'TX', 'GA', 'FL', 'TN', 'OH', 'IN', 'NC'],
+  eligiblePropertyTypes: ['Single Family'],
+  ineligibleOwnershipTypes: ['LLC', 'Corporation', 'Partnership'],
+  minHomeValue: 200000,
+  maxHomeValue: 1500000,
+  maxLTV: 65,
+  minCashAmount: 0,
+  cashFormula: SL_CASH_FORMULA,
+  leasebackTerms: SL_LEASEBACK_TERMS
+};
+
+/**
+ * A versioned set of rules covering every product.
+ * Version 0 is the built-in fallback used until a published version loads.
+ */
+export interface ProductGuidelines {
+  version: number;
+  rules: Record<ProductId, ProductRuleSet>;
+}
+
+export const DEFAULT_GUIDELINES: ProductGuidelines = {
+  version: 0,
+  rules: {
+    hei: HEI_RULE_SET,
+    sl: SL_RULE_SET
+  }
+};
+
+// Guidelines every calculator evaluates against (replaced once the published version loads)
+let activeGuidelines: ProductGuidelines = DEFAULT_GUIDELINES;
+
+export function getActiveGuidelines(): ProductGuidelines {
+  return activeGuidelines;
+}
+
+export function setActiveGuidelines(guidelines: ProductGuidelines): void {
+  activeGuidelines = guidelines;
+}
+
+export function getProductRules(productId: ProductId): ProductRuleSet {
+  return activeGuidelines.rules[productId];
+}
+
+/**
+ * All products under the active guidelines
+ */
+export function getProductRuleSets(): ProductRuleSet[] {
+  return Object.values(activeGuidelines.rules);
+}
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(v => typeof v === 'string');
+
+function isValidCashFormula(value: unknown): value is CashFormula {
+  const formula = (value ?? {}) as Record<string, unknown>;
+  if (formula.type === 'equity_share') {
+    return isNumber(formula.maxSharePercentage) && isNumber(formula.exchangeRate) && formula.exchangeRate > 0 && isNumber(formula.maxAmount) &&
+      (formula.costCap === undefined || isNumber(formula.costCap));
+  }
+  if (formula.type === 'percent_of_value') {
+    return isNumber(formula.percentage);
+  }
+  return false;
+}
+
+const STATE_OVERRIDE_FIELDS: (keyof StateTermsOverride)[] = ['maxLTV', 'minCashAmount', 'maxSharePercentage', 'exchangeRate', 'costCap'];
+
+function isValidStateOverrides(value: unknown): value is Record<string, StateTermsOverride> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  return Object.values(value).every(override => {
+    const terms = (override ?? {}) as Record<string, unknown>;
+    return typeof override === 'object' && STATE_OVERRIDE_FIELDS.every(field => terms[field] === undefined || isNumber(terms[field]));
+  });
+}
+
+function isValidLeasebackTerms(value: unknown): value is LeasebackTerms {
+  const terms = (value ?? {}) as Record<string, unknown>;
+  return (
+    isNumber(terms.closingCostPercentage) &&
+    isNumber(terms.transferTaxPercentage) &&
+    isNumber(terms.capRate) &&
+    isNumber(terms.buybackAppreciation) &&
+    isNumber(terms.buybackYears) && terms.buybackYears >= 0
+  );
+}
+
+function isValidBorrowerAdjustments(value: unknown): value is BorrowerAdjustment[] {
+  if (!Array.isArray(value)) return false;
+  return value.every(item => {
+    const adjustment = (item ?? {}) as Record<string, unknown>;
+    const when = (adjustment.when ?? {}) as Record<string, unknown>;
+    const terms = (adjustment.terms ?? {}) as Record<string, unknown>;
+    return (
+      typeof adjustment.id === 'string' &&
+      typeof adjustment.label === 'string' &&
+      typeof adjustment.when === 'object' &&
+      (when.creditTiers === undefined || (isStringArray(when.creditTiers) && when.creditTiers.every(tier => CREDIT_TIERS.includes(tier as CreditTier)))) &&
+      (when.isEmployed === undefined || typeof when.isEmployed === 'boolean') &&
+      (when.hasLatePayments === undefined || typeof when.hasLatePayments === 'boolean') &&
+      (['maxLTV', 'minCashAmount', 'maxSharePercentage'] as const).every(field => terms[field] === undefined || isNumber(terms[field])) &&
+      (adjustment.excludeProduct === undefined || typeof adjustment.excludeProduct === 'boolean')
+    );
+  });
+}
+
+function isValidRuleSet(value: unknown, productId: ProductId): value is ProductRuleSet {
+  const rules = (value ?? {}) as Record<string, unknown>;
+  return (
+    rules.id === productId &&
+    typeof rules.name === 'string' &&
+    isStringArray(rules.eligibleStates) &&
+    (rules.eligiblePropertyTypes === undefined || isStringArray(rules.eligiblePropertyTypes)) &&
+    (rules.ineligiblePropertyTypes === undefined || isStringArray(rules.ineligiblePropertyTypes)) &&
+    isStringArray(rules.ineligibleOwnershipTypes) &&
+    isNumber(rules.minHomeValue) &&
+    isNumber(rules.maxHomeValue) &&
+    isNumber(rules.maxLTV) &&
+    isNumber(rules.minCashAmount) &&
+    isValidCashFormula(rules.cashFormula) &&
+    (rules.stateOverrides === undefined || isValidStateOverrides(rules.stateOverrides)) &&
+    (rules.leasebackTerms === undefined || isValidLeasebackTerms(rules.leasebackTerms)) &&
+    (rules.borrowerAdjustments === undefined || isValidBorrowerAdjustments(rules.borrowerAdjustments))
+  );
+}
+
+/**
+ * Validate guideline rules loaded from the database.
+ * Returns null if any product's rule set is missing or malformed.
+ */
+export function parseProductGuidelines(version: number, rules: unknown): ProductGuidelines | null {
+  const candidate = rules as Record<ProductId, unknown> | null;
+  if (!candidate || typeof candidate !== 'object') return null;
+
+  const productIds = Object.keys(DEFAULT_GUIDELINES.rules) as ProductId[];
+  if (!productIds.every(id => isValidRuleSet(candidate[id], id))) return null;
+
+  return { version, rules: candidate as Record<ProductId, ProductRuleSet> };
+}
+
+export function isStateEligibleFor(rules: ProductRuleSet, state: string): boolean {
+  return rules.eligibleStates.includes(state.toUpperCase());
+}
+
+export function isPropertyTypeEligibleFor(rules: ProductRuleSet, propertyType: string): boolean {
+  if (rules.eligiblePropertyTypes && !rules.eligiblePropertyTypes.includes(propertyType)) return false;
+  return !(rules.ineligiblePropertyTypes || []).includes(propertyType);
+}
+
+export function isOwnershipTypeEligibleFor(rules: ProductRuleSet, ownershipType: string): boolean {
+  return !rules.ineligibleOwnershipTypes.includes(ownershipType);
+}
+
+/**
+ * The override configured for a state, if any
+ */
+export function getStateOverride(rules: ProductRuleSet, state: string): AppliedStateOverride | null {
+  const key = state.toUpperCase();
+  const terms = rules.stateOverrides?.[key];
+  return terms ? { state: key, terms } : null;
+}
+
+/**
+ * A product's rule set with the state's override (if any) merged over the national terms
+ */
+export function applyStateOverride(rules: ProductRuleSet, state: string): ProductRuleSet {
+  const override = getStateOverride(rules, state);
+  if (!override) return rules;
+
+  const { maxLTV, minCashAmount, maxSharePercentage, exchangeRate, costCap } = override.terms;
+  const formula = rules.cashFormula;
+
+  return {
+    ...rules,
+    maxLTV: maxLTV ?? rules.maxLTV,
+    minCashAmount: minCashAmount ?? rules.minCashAmount,
+    cashFormula: formula.type === 'equity_share'
+      ? {
+        ...formula,
+        maxSharePercentage: maxSharePercentage ?? formula.maxSharePercentage,
+        exchangeRate: exchangeRate ?? formula.exchangeRate,
+        costCap: costCap ?? formula.costCap
+      }
+      : formula
+  };
+}
+
+/**
+ * Lowest credit tier across owners' answers. Values that aren't a tier (e.g. free text) are ignored.
+ */
+export function getLowestCreditTier(creditScores: (string | null | undefined)[]): CreditTier | undefined {
+  const indexes = creditScores.map(score => CREDIT_TIERS.indexOf(score as CreditTier)).filter(index => index >= 0);
+  return indexes.length > 0 ? CREDIT_TIERS[Math.max(...indexes)] : undefined;
+}
+
+/**
+ * Borrower profile from the wizard's answers. Owners' exact credit ranges win over the
+ * "below 620?" screening question, which can only place the borrower in the 580-620 tier.
+ */
+export function buildBorrowerProfile(answers: {
+  creditScores?: string[];
+  isCreditScoreLow?: boolean | null;
+  isEmployed?: boolean | null;
+  hasLatePayments?: boolean | null;
+}): BorrowerProfile {
+  const screenedTier: CreditTier | undefined = answers.isCreditScoreLow == null
+    ? undefined
+    : (answers.isCreditScoreLow ? '580_620' : '620_plus');
+
+  return {
+    creditTier: getLowestCreditTier(answers.creditScores || []) ?? screenedTier,
+    isEmployed: answers.isEmployed ?? undefined,
+    hasLatePayments: answers.hasLatePayments ?? undefined
+  };
+}
+
+/**
+ * The product's borrower adjustments whose conditions the profile meets
+ */
+export function getMatchingBorrowerAdjustments(rules: ProductRuleSet, borrower: BorrowerProfile | undefined): BorrowerAdjustment[] {
+  if (!borrower) return [];
+  return (rules.borrowerAdjustments || []).filter(({ when }) => {
+    const conditions = [
+      when.creditTiers === undefined || (borrower.creditTier !== undefined && when.creditTiers.includes(borrower.creditTier)),
+      when.isEmployed === undefined || borrower.isEmployed === when.isEmployed,
+      when.hasLatePayments === undefined || borrower.hasLatePayments === when.hasLatePayments
+    ];
+    // An adjustment with no conditions would apply to everyone - treat it as unconfigured
+    const hasCondition = when.creditTiers !== undefined || when.isEmployed !== undefined || when.hasLatePayments !== undefined;
+    return hasCondition && conditions.every(Boolean);
+  });
+}
+
+/**
+ * A rule set tightened by borrower adjustments (most restrictive value wins)
+ */
+export function applyBorrowerAdjustments(rules: ProductRuleSet, adjustments: BorrowerAdjustment[]): ProductRuleSet {
+  if (adjustments.length === 0) return rules;
+
+  return adjustments.reduce((adjusted, { terms = {} }) => {
+    const formula = adjusted.cashFormula;
+    return {
+      ...adjusted,
+      maxLTV: terms.maxLTV !== undefined ? Math.min(adjusted.maxLTV, terms.maxLTV) : adjusted.maxLTV,
+      minCashAmount: terms.minCashAmount !== undefined ? Math.max(adjusted.minCashAmount, terms.minCashAmount) : adjusted.minCashAmount,
+      cashFormula: formula.type === 'equity_share' && terms.maxSharePercentage !== undefined
+        ? { ...formula, maxSharePercentage: Math.min(formula.maxSharePercentage, terms.maxSharePercentage) }
+        : formula
+    };
+  }, rules);
+}
+
+/**
+ * A product's rules as they apply to this property: the state's override, then the borrower's adjustments
+ */
+export function getEffectiveRules(productRules: ProductRuleSet, property: PropertyInput): ProductRuleSet {
+  return applyBorrowerAdjustments(
+    applyStateOverride(productRules, property.state),
+    getMatchingBorrowerAdjustments(productRules, property.borrower)
+  );
+}
+
+/**
+ * Debt retired at closing, never more than the debt on the property
+ */
+export function getPayoffAmount(property: PropertyInput): number {
+  return Math.min(Math.max(0, property.payoffAtClosing || 0), property.mortgageBalance);
+}
+
+/**
+ * Loan-to-value as a percentage (0 when value is unknown)
+ */
+export function calculateLTV(homeValue: number, mortgageBalance: number): number {
+  return homeValue > 0 ? (mortgageBalance / homeValue) * 100 : 0;
+}
+
+/**
+ * Every cap a product's formula applies to the cash amount; the lowest one binds
+ */
+export function calculateCashCaps(rules: ProductRuleSet, homeValue: number, mortgageBalance: number): CashCap[] {
+  const formula = rules.cashFormula;
+  const caps: Omit<CashCap, 'binding'>[] = formula.type === 'percent_of_value'
+    ? [{
+      cap: 'percent_of_value',
+      amount: (homeValue * formula.percentage) - mortgageBalance,
+      inputs: { homeValue, percentage: formula.percentage, debt: mortgageBalance }
+    }]
+    : [
+      {
+        cap: 'cltv_headroom',
+        amount: (homeValue * (rules.maxLTV / 100)) - mortgageBalance,
+        inputs: { homeValue, maxLTV: rules.maxLTV, debt: mortgageBalance }
+      },
+      {
+        cap: 'share_cap',
+        amount: homeValue * (formula.maxSharePercentage / formula.exchangeRate),
+        inputs: { homeValue, maxSharePercentage: formula.maxSharePercentage, exchangeRate: formula.exchangeRate }
+      },
+      {
+        cap: 'absolute_cap',
+        amount: formula.maxAmount,
+        inputs: { maxAmount: formula.maxAmount }
+      }
+    ];
+
+  const lowest = Math.min(...caps.map(cap => cap.amount));
+  const bindingIndex = caps.findIndex(cap => cap.amount === lowest);
+  return caps.map((cap, i) => ({ ...cap, binding: i === bindingIndex }));
+}
+
+/**
+ * Cash available to the homeowner under a product's formula (never negative)
+ */
+export function calculateProductCash(rules: ProductRuleSet, homeValue: number, mortgageBalance: number): number {
+  return Math.max(0, Math.min(...calculateCashCaps(rules, homeValue, mortgageBalance).map(cap => cap.amount)));
+}
+
+/**
+ * Evaluate a property against one product's rule set (with the property state's override
+ * and the borrower's adjustments applied). The trace records every rule, not just failures.
+ */
+export function evaluateProductEligibility(productRules: ProductRuleSet, property: PropertyInput): ProductEligibilityResult {
+  const { homeValue, mortgageBalance, state, propertyType, ownershipType, borrower } = property;
+  const stateOverride = getStateOverride(productRules, state);
+  const borrowerAdjustments = getMatchingBorrowerAdjustments(productRules, borrower);
+  const rules = getEffectiveRules(productRules, property);
+  const payoffAmount = getPayoffAmount(property);
+  const remainingDebt = mortgageBalance - payoffAmount;
+  // A sale (percent of value) retires every lien, so its LTV limit is on the debt before closing;
+  // an HEI's CLTV is on the debt left after the liens paid at closing
+  const ltv = calculateLTV(homeValue, rules.cashFormula.type === 'percent_of_value' ? mortgageBalance : remainingDebt);
+  const caps = calculateCashCaps(rules, homeValue, remainingDebt);
+  const cashAmount = Math.max(0, Math.min(...caps.map(cap => cap.amount)));
+  const product = rules.id;
+  const reasons: IneligibilityReason[] = [];
+  const checks: RuleCheck[] = [];
+
+  const check = (rule: RuleCheck['rule'], passed: boolean, actual: RuleCheck['actual'], limit: RuleCheck['limit'], excluded?: boolean) => {
+    checks.push({ rule, passed, actual, limit, ...(excluded ? { excluded } : {}) });
+    return passed;
+  };
+
+  if (!check('state', isStateEligibleFor(rules, state), state.toUpperCase(), rules.eligibleStates)) {
+    reasons.push({ code: 'STATE_NOT_ELIGIBLE', product, state, eligibleStates: rules.eligibleStates });
+  }
+
+  const propertyTypeEligible = isPropertyTypeEligibleFor(rules, propertyType);
+  const propertyTypeChecked = rules.eligiblePropertyTypes
+    ? check('property_type', propertyTypeEligible, propertyType, rules.eligiblePropertyTypes)
+    : check('property_type', propertyTypeEligible, propertyType, rules.ineligiblePropertyTypes || [], true);
+  if (!propertyTypeChecked) {
+    reasons.push({ code: 'PROPERTY_TYPE_NOT_ELIGIBLE', product, propertyType, eligiblePropertyTypes: rules.eligiblePropertyTypes });
+  }
+
+  if (ownershipType !== undefined &&
+    !check('ownership_type', isOwnershipTypeEligibleFor(rules, ownershipType), ownershipType, rules.ineligibleOwnershipTypes, true)) {
+    reasons.push({ code: 'OWNERSHIP_TYPE_NOT_ELIGIBLE', product, ownershipType });
+  }
+
+  if (borrower) {
+    const exclusions = borrowerAdjustments.filter(adjustment => adjustment.excludeProduct);
+    const excludingLabels = (rules.borrowerAdjustments || []).filter(adjustment => adjustment.excludeProduct).map(adjustment => adjustment.label);
+    const matched = borrowerAdjustments.map(adjustment => adjustment.label).join(', ') || 'No adjustments';
+    check('borrower', exclusions.length === 0, matched, excludingLabels, true);
+    exclusions.forEach(adjustment => {
+      reasons.push({ code: 'BORROWER_NOT_ELIGIBLE', product, condition: adjustment.label });
+    });
+  }
+
+  if (!check('min_home_value', homeValue >= rules.minHomeValue, homeValue, rules.minHomeValue)) {
+    reasons.push({ code: 'HOME_VALUE_TOO_LOW', product, limit: rules.minHomeValue, actual: homeValue });
+  }
+  if (!check('max_home_value', homeValue <= rules.maxHomeValue, homeValue, rules.maxHomeValue)) {
+    reasons.push({ code: 'HOME_VALUE_TOO_HIGH', product, limit: rules.maxHomeValue, actual: homeValue });
+  }
+
+  if (!check('max_ltv', ltv <= rules.maxLTV, ltv, rules.maxLTV)) {
+    reasons.push({ code: 'LTV_TOO_HIGH', product, limit: rules.maxLTV, actual: ltv });
+  }
+
+  if (rules.minCashAmount > 0 && !check('min_cash', cashAmount >= rules.minCashAmount, cashAmount, rules.minCashAmount)) {
+    reasons.push({ code: 'INSUFFICIENT_EQUITY', product, limit: rules.minCashAmount, actual: cashAmount });
+  }
+
+  if (payoffAmount > 0 && !check('payoff', cashAmount >= payoffAmount, cashAmount, payoffAmount)) {
+    reasons.push({ code: 'PAYOFF_EXCEEDS_FUNDING', product, limit: payoffAmount, actual: cashAmount });
+  }
+
+  return {
+    productId: rules.id,
+    isEligible: reasons.length === 0,
+    cashAmount,
+    payoffAmount,
+    netCashAmount: Math.max(0, cashAmount - payoffAmount),
+    ltv,
+    reasons,
+    stateOverride,
+    borrowerAdjustments,
+    trace: {
+      productId: rules.id,
+      checks,
+      caps,
+      termSources: [
+        ...(stateOverride ? [`${stateOverride.state} state terms`] : []),
+        ...borrowerAdjustments.map(adjustment => adjustment.label)
+      ]
+    }
+  };
+}
+
+/**
+ * Generic reasons shown when NO product qualifies. A rule is reported only if it
+ * fails for every product it applies to, using the most lenient limit across products
+ * (after state terms and borrower adjustments, as in each product's trace).
+ */
+export function getCombinedIneligibilityReasons(
+  productRuleSets: ProductRuleSet[],
+  results: ProductEligibilityResult[],
+  property: PropertyInput
+): IneligibilityReason[] {
+  const ruleSets = productRuleSets.map(rules => getEffectiveRules(rules, property));
+  const failsEverywhere = (code: IneligibilityReasonCode, applies: (rules: ProductRuleSet) => boolean = () => true) => {
+    const applicable = results.filter((_, i) => applies(ruleSets[i]));
+    return applicable.length > 0 && applicable.every(r => r.reasons.some(reason => reason.code === code));
+  };
+  const { homeValue, state, propertyType, ownershipType } = property;
+  const payoffAmount = getPayoffAmount(property);
+  // Products measure LTV on different debt (see evaluateProductEligibility) - report the lowest
+  const ltv = Math.min(...results.map(r => r.ltv));
+  const reasons: IneligibilityReason[] = [];
+
+  if (failsEverywhere('STATE_NOT_ELIGIBLE')) {
+    reasons.push({ code: 'STATE_NOT_ELIGIBLE', state });
+  }
+  if (failsEverywhere('PROPERTY_TYPE_NOT_ELIGIBLE')) {
+    reasons.push({ code: 'PROPERTY_TYPE_NOT_ELIGIBLE', propertyType });
+  }
+  if (failsEverywhere('OWNERSHIP_TYPE_NOT_ELIGIBLE')) {
+    reasons.push({ code: 'OWNERSHIP_TYPE_NOT_ELIGIBLE', ownershipType });
+  }
+  if (failsEverywhere('BORROWER_NOT_ELIGIBLE')) {
+    const conditions = results.flatMap(r => r.reasons).flatMap(reason => (reason.code === 'BORROWER_NOT_ELIGIBLE' ? [reason.condition] : []));
+    [...new Set(conditions)].forEach(condition => reasons.push({ code: 'BORROWER_NOT_ELIGIBLE', condition }));
+  }
+  if (failsEverywhere('HOME_VALUE_TOO_LOW')) {
+    reasons.push({ code: 'HOME_VALUE_TOO_LOW', limit: Math.min(...ruleSets.map(r => r.minHomeValue)), actual: homeValue });
+  }
+  if (failsEverywhere('HOME_VALUE_TOO_HIGH')) {
+    reasons.push({ code: 'HOME_VALUE_TOO_HIGH', limit: Math.max(...ruleSets.map(r => r.maxHomeValue)), actual: homeValue });
+  }
+  if (failsEverywhere('LTV_TOO_HIGH')) {
+    reasons.push({ code: 'LTV_TOO_HIGH', limit: Math.max(...ruleSets.map(r => r.maxLTV)), actual: ltv });
+  }
+  if (failsEverywhere('INSUFFICIENT_EQUITY', rules => rules.minCashAmount > 0)) {
+    const withMinimum = results.filter((_, i) => ruleSets[i].minCashAmount > 0);
+    reasons.push({
+      code: 'INSUFFICIENT_EQUITY',
+      limit: Math.min(...ruleSets.filter(r => r.minCashAmount > 0).map(r => r.minCashAmount)),
+      actual: Math.max(...withMinimum.map(r => r.cashAmount))
+    });
+  }
+  if (failsEverywhere('PAYOFF_EXCEEDS_FUNDING')) {
+    reasons.push({ code: 'PAYOFF_EXCEEDS_FUNDING', limit: payoffAmount, actual: Math.max(...results.map(r => r.cashAmount)) });
+  }
+
+  return reasons;
+}
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_QUICK_QUOTE, decodeQuickQuote, encodeQuickQuote } from './quickQuote';
+
+describe('quick quote links', () => {
+  it('round-trips every input', () => {
+    const inputs = {
+      homeValue: 650000,
+      mortgageBalance: 310000,
+      state: 'FL',
+      propertyType: 'Condo',
+      ownershipType: 'Trust',
+      settlementYear: 7,
+      hpaRate: 2.5
+    };
+    const params = encodeQuickQuote(inputs);
+    expect(params.toString()).toBe('value=650000&balance=310000&state=FL&type=Condo&ownership=Trust&year=7&hpa=2.5');
+    expect(decodeQuickQuote(new URLSearchParams(params.toString()))).toEqual(inputs);
+  });
+
+  it('falls back to defaults for missing or unknown values', () => {
+    expect(decodeQuickQuote(new URLSearchParams(''))).toEqual(DEFAULT_QUICK_QUOTE);
+    expect(decodeQuickQuote(new URLSearchParams('state=ZZ&type=Castle&value=abc'))).toEqual(DEFAULT_QUICK_QUOTE);
+  });
+
+  it('normalizes case and clamps ranges', () => {
+    const inputs = decodeQuickQuote(new URLSearchParams('state=ca&type=single%20family&year=45&hpa=-20&balance=-5'));
+    expect(inputs.state).toBe('CA');
+    expect(inputs.propertyType).toBe('Single Family');
+    expect(inputs.settlementYear).toBe(30);
+    expect(inputs.hpaRate).toBe(-5);
+    expect(inputs.mortgageBalance).toBe(0);
+  });
+
+  it('leaves the state out until one is picked', () => {
+    expect(encodeQuickQuote(DEFAULT_QUICK_QUOTE).has('state')).toBe(false);
+  });
+});
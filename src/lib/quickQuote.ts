@@ -0,0 +1,77 @@
+/**
+ * Quick Quote
+ * Prices a scenario from manual inputs (no property lookup). Inputs round-trip
+ * through the URL so a quote can be shared as a link.
+ */
+
+import { ALL_STATES, OWNERSHIP_TYPES, PROPERTY_TYPES } from './propertyOptions';
+import { HEA_SCHEDULE_YEARS } from './heaCalculator';
+
+export interface QuickQuoteInputs {
+  homeValue: number;
+  mortgageBalance: number;
+  state: string;
+  propertyType: string;
+  ownershipType: string;
+  settlementYear: number;
+  hpaRate: number; // percent, e.g. 3
+}
+
+export const DEFAULT_QUICK_QUOTE: QuickQuoteInputs = {
+  homeValue: 500000,
+  mortgageBalance: 200000,
+  state: '',
+  propertyType: 'Single Family',
+  ownershipType: 'Personal',
+  settlementYear: 10,
+  hpaRate: 3
+};
+
+// Short, stable query parameter names - changing one breaks links already shared
+const PARAMS: Record<keyof QuickQuoteInputs, string> = {
+  homeValue: 'value',
+  mortgageBalance: 'balance',
+  state: 'state',
+  propertyType: 'type',
+  ownershipType: 'ownership',
+  settlementYear: 'year',
+  hpaRate: 'hpa'
+};
+
+const readNumber = (params: URLSearchParams, key: string, fallback: number, min: number, max: number) => {
+  const value = parseFloat(params.get(key) ?? '');
+  return Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+};
+
+const readOption = (params: URLSearchParams, key: string, options: string[], fallback: string) => {
+  const value = params.get(key);
+  return options.find(option => option.toUpperCase() === value?.toUpperCase()) ?? fallback;
+};
+
+/**
+ * Inputs from a shared link. Missing or invalid values fall back to the defaults.
+ */
+export function decodeQuickQuote(params: URLSearchParams): QuickQuoteInputs {
+  const defaults = DEFAULT_QUICK_QUOTE;
+  return {
+    homeValue: readNumber(params, PARAMS.homeValue, defaults.homeValue, 0, 100000000),
+    mortgageBalance: readNumber(params, PARAMS.mortgageBalance, defaults.mortgageBalance, 0, 100000000),
+    state: readOption(params, PARAMS.state, ALL_STATES.map(s => s.abbr), defaults.state),
+    propertyType: readOption(params, PARAMS.propertyType, PROPERTY_TYPES, defaults.propertyType),
+    ownershipType: readOption(params, PARAMS.ownershipType, OWNERSHIP_TYPES, defaults.ownershipType),
+    settlementYear: Math.round(readNumber(params, PARAMS.settlementYear, defaults.settlementYear, 1, HEA_SCHEDULE_YEARS)),
+    hpaRate: readNumber(params, PARAMS.hpaRate, defaults.hpaRate, -5, 10)
+  };
+}
+
+/**
+ * Query string for a quote (state is left out until one is picked)
+ */
+export function encodeQuickQuote(inputs: QuickQuoteInputs): URLSearchParams {
+  const params = new URLSearchParams();
+  (Object.keys(PARAMS) as (keyof QuickQuoteInputs)[]).forEach(key => {
+    const value = inputs[key];
+    if (value !== '') params.set(PARAMS[key], String(value));
+  });
+  return params;
+}
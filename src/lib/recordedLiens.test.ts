@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { getLatestSaleDate, getRecordedLienTotal, parseRecordedLiens, type AttomMortgagePayload } from './recordedLiens';
+
+const AS_OF = new Date('2026-06-01T00:00:00Z');
+
+const loan = (amount: number, date: string, overrides = {}) => ({
+  amount,
+  date,
+  dueDate: '2050-01-01',
+  lender: { lastname: 'FIRST BANK NA' },
+  loanTypeCode: 'CNV',
+  interestRate: 3.5,
+  term: '360',
+  ...overrides
+});
+
+const mortgageOwner = (mortgage: AttomMortgagePayload['property'][0]['mortgage']): AttomMortgagePayload => ({
+  property: [{ mortgage }]
+});
+
+const salesHistory = (...sales: Array<[number, string]>): AttomMortgagePayload => ({
+  property: [{ salehistory: sales.map(([saleamt, salerecdate]) => ({ amount: { saleamt, salerecdate } })) }]
+});
+
+describe('parseRecordedLiens', () => {
+  it('returns concurrent loans in lien order with dates and lenders', () => {
+    const liens = parseRecordedLiens(mortgageOwner({
+      FirstConcurrent: loan(400000, '2021-03-15'),
+      SecondConcurrent: loan(50000, '2021-03-15', { lender: { lastname: 'SECOND CU' } })
+    }), salesHistory([500000, '2021-03-15']), AS_OF);
+
+    expect(liens).toEqual([
+      { type: 'first_mortgage', position: 1, amount: 400000, recordedDate: '2021-03-15', lender: 'FIRST BANK NA', loanType: 'CNV', interestRate: 3.5, termMonths: 360, dueDate: '2050-01-01' },
+      { type: 'second_mortgage', position: 2, amount: 50000, recordedDate: '2021-03-15', lender: 'SECOND CU', loanType: 'CNV', interestRate: 3.5, termMonths: 360, dueDate: '2050-01-01' }
+    ]);
+    expect(getRecordedLienTotal(liens)).toBe(450000);
+  });
+
+  it('drops loans recorded before the latest priced sale', () => {
+    const history: AttomMortgagePayload = {
+      property: [{
+        salehistory: [
+          { amount: { saleamt: 600000, salerecdate: '2022-05-01' }, mortgage: { FirstConcurrent: loan(480000, '2022-05-01') } },
+          { amount: { saleamt: 300000, salerecdate: '2012-01-10' }, mortgage: { FirstConcurrent: loan(240000, '2012-01-10') } }
+        ]
+      }]
+    };
+    const liens = parseRecordedLiens(mortgageOwner({ FirstConcurrent: loan(480000, '2022-05-01') }), history, AS_OF);
+
+    expect(liens.map(lien => lien.amount)).toEqual([480000]);
+  });
+
+  it('ignores zero-dollar transfers when finding the latest sale', () => {
+    expect(getLatestSaleDate(salesHistory([350000, '2015-07-01'], [0, '2020-02-02']))).toBe('2015-07-01');
+  });
+
+  it('treats a later first-position loan as a refinance', () => {
+    const history: AttomMortgagePayload = {
+      property: [{
+        salehistory: [
+          { amount: { saleamt: 350000, salerecdate: '2015-07-01' }, mortgage: { FirstConcurrent: loan(280000, '2015-07-01') } }
+        ]
+      }]
+    };
+    const liens = parseRecordedLiens(mortgageOwner({ FirstConcurrent: loan(310000, '2020-09-20') }), history, AS_OF);
+
+    expect(liens).toHaveLength(1);
+    expect(liens[0]).toMatchObject({ type: 'first_mortgage', amount: 310000, recordedDate: '2020-09-20' });
+  });
+
+  it('keeps a later credit line behind the first mortgage', () => {
+    const history: AttomMortgagePayload = {
+      property: [{
+        salehistory: [
+          { amount: { saleamt: 350000, salerecdate: '2015-07-01' }, mortgage: { FirstConcurrent: loan(280000, '2015-07-01') } }
+        ]
+      }]
+    };
+    const liens = parseRecordedLiens(mortgageOwner({ FirstConcurrent: loan(60000, '2023-02-11', { loanTypeCode: 'CL' }) }), history, AS_OF);
+
+    expect(liens.map(lien => [lien.type, lien.position, lien.amount])).toEqual([
+      ['first_mortgage', 1, 280000],
+      ['heloc', 2, 60000]
+    ]);
+  });
+
+  it('drops matured loans', () => {
+    const liens = parseRecordedLiens(mortgageOwner({ FirstConcurrent: loan(90000, '1996-04-01', { dueDate: '2026-04-01' }) }), null, AS_OF);
+
+    expect(liens).toEqual([]);
+  });
+
+  it('handles missing payloads', () => {
+    expect(parseRecordedLiens(null, null, AS_OF)).toEqual([]);
+    expect(parseRecordedLiens({ property: [] }, { property: [] }, AS_OF)).toEqual([]);
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Recorded Liens
+ * Open loans on a property from ATTOM's public-record mortgage data. The mortgage/owner
+ * detail lists the concurrent loans recorded with the latest deeds; the sale history tells
+ * us which of them were paid off when the property last sold. Amounts are original loan
+ * amounts as recorded, not current balances. Shared with atom-property-lookup (Deno).
+ */
+
+import type { LienType } from './liens.ts';
+
+export interface RecordedLien {
+  type: LienType;
+  position: number; // 1 = first lien
+  amount: number; // original loan amount
+  recordedDate: string | null; // YYYY-MM-DD
+  lender: string | null;
+  loanType: string | null; // ATTOM loan type code (CNV, FHA, VA, CL...)
+  interestRate: number | null;
+  termMonths: number | null;
+  dueDate: string | null;
+}
+
+// The parts of ATTOM's mortgage and sale history payloads we read
+interface AttomLoan {
+  amount?: number;
+  date?: string;
+  dueDate?: string;
+  lender?: { lastname?: string; companyname?: string };
+  loanTypeCode?: string;
+  interestRate?: number;
+  term?: number | string; // months
+}
+
+interface AttomSale {
+  saleTransDate?: string;
+  saleSearchDate?: string;
+  amount?: { saleamt?: number; salerecdate?: string };
+  mortgage?: Record<string, AttomLoan | undefined>;
+}
+
+export interface AttomMortgagePayload {
+  property?: Array<{
+    mortgage?: Record<string, AttomLoan | undefined>;
+    sale?: { mortgage?: Record<string, AttomLoan | undefined> };
+    salehistory?: AttomSale[];
+  }>;
+}
+
+// Loans recorded with the same deed, in lien order
+const CONCURRENT_KEYS = ['FirstConcurrent', 'SecondConcurrent', 'ThirdConcurrent'];
+
+// Revolving credit lines (HELOCs) don't refinance the first mortgage
+const CREDIT_LINE_CODES = ['CL', 'LOC', 'HELOC'];
+
+const toDate = (value?: string) => (value ? value.slice(0, 10) : null);
+
+const isCreditLine = (loanType: string | null) => !!loanType && CREDIT_LINE_CODES.includes(loanType.toUpperCase());
+
+interface LoanCandidate extends Omit<RecordedLien, 'type' | 'position'> {
+  concurrentRank: number; // 0 = FirstConcurrent
+}
+
+const readConcurrentLoans = (mortgage?: Record<string, AttomLoan | undefined>): LoanCandidate[] =>
+  CONCURRENT_KEYS.flatMap((key, concurrentRank) => {
+    const loan = mortgage?.[key];
+    if (!loan?.amount || loan.amount <= 0) return [];
+    return [{
+      concurrentRank,
+      amount: Math.round(loan.amount),
+      recordedDate: toDate(loan.date),
+      lender: loan.lender?.lastname?.trim() || loan.lender?.companyname?.trim() || null,
+      loanType: loan.loanTypeCode?.trim() || null,
+      interestRate: loan.interestRate || null,
+      termMonths: Number(loan.term) || null,
+      dueDate: toDate(loan.dueDate)
+    }];
+  });
+
+/**
+ * Recording date of the most recent priced sale. Zero-dollar transfers (quitclaims,
+ * deeds into a trust) leave the existing loans in place.
+ */
+export function getLatestSaleDate(salesHistory: AttomMortgagePayload | null): string | null {
+  const dates = (salesHistory?.property?.[0]?.salehistory ?? [])
+    .filter(sale => (sale.amount?.saleamt ?? 0) > 0)
+    .map(sale => toDate(sale.amount?.salerecdate || sale.saleTransDate || sale.saleSearchDate))
+    .filter((date): date is string => !!date);
+  return dates.length > 0 ? dates.reduce((a, b) => (b > a ? b : a)) : null;
+}
+
+/**
+ * Loans still open on the property, in lien order. A loan is closed when it was recorded
+ * before the latest sale, has matured, or was refinanced by a later first-position loan.
+ */
+export function parseRecordedLiens(
+  mortgageOwner: AttomMortgagePayload | null,
+  salesHistory: AttomMortgagePayload | null,
+  asOf: Date = new Date()
+): RecordedLien[] {
+  const property = mortgageOwner?.property?.[0];
+  const candidates = [
+    ...readConcurrentLoans(property?.mortgage),
+    ...readConcurrentLoans(property?.sale?.mortgage),
+    ...(salesHistory?.property?.[0]?.salehistory ?? []).flatMap(sale => readConcurrentLoans(sale.mortgage))
+  ];
+
+  // The same loan shows up on more than one payload
+  const unique = candidates.filter((loan, i) =>
+    candidates.findIndex(other => other.amount === loan.amount && other.recordedDate === loan.recordedDate) === i
+  );
+
+  const latestSale = getLatestSaleDate(salesHistory);
+  const today = asOf.toISOString().slice(0, 10);
+  let open = unique.filter(loan =>
+    (!latestSale || !loan.recordedDate || loan.recordedDate >= latestSale) &&
+    (!loan.dueDate || loan.dueDate >= today)
+  );
+
+  // A later first-position loan that isn't a credit line is a refinance and paid off what came before
+  const refinance = open
+    .filter(loan => loan.concurrentRank === 0 && loan.recordedDate && !isCreditLine(loan.loanType))
+    .reduce<LoanCandidate | null>((latest, loan) => (!latest || loan.recordedDate! > latest.recordedDate! ? loan : latest), null);
+  if (refinance) {
+    open = open.filter(loan => !loan.recordedDate || loan.recordedDate >= refinance.recordedDate!);
+  }
+
+  return open
+    .sort((a, b) => (a.recordedDate ?? '').localeCompare(b.recordedDate ?? '') || a.concurrentRank - b.concurrentRank)
+    .map(({ concurrentRank: _concurrentRank, ...loan }, i) => ({
+      ...loan,
+      position: i + 1,
+      type: isCreditLine(loan.loanType) ? 'heloc' : i === 0 ? 'first_mortgage' : 'second_mortgage'
+    }));
+}
+
+/**
+ * Combined original amount of the recorded open loans
+ */
+export function getRecordedLienTotal(liens: RecordedLien[]): number {
+  return liens.reduce((total, lien) => total + lien.amount, 0);
+}
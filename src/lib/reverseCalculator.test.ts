@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { solveForTargetCash, solveAllProductsForTargetCash } from './reverseCalculator';
+import { HEI_RULE_SET, SL_RULE_SET, type PropertyInput } from './productRules';
+import { calculateMaxInvestment } from './heaCalculator';
+
+const property = (homeValue: number, mortgageBalance: number, state = 'CA'): PropertyInput => ({
+  homeValue,
+  mortgageBalance,
+  state,
+  propertyType: 'Single Family',
+  ownershipType: 'Personal'
+});
+
+describe('solveForTargetCash (HEI)', () => {
+  it('reports a reachable target with the headroom around it', () => {
+    const solution = solveForTargetCash(HEI_RULE_SET, property(500000, 200000), 100000);
+    expect(solution.isReachable).toBe(true);
+    expect(solution.gap).toBe(0);
+    expect(solution.minHomeValue).toBeCloseTo(100000 / 0.2495, 6); // share cap binds before CLTV
+    expect(solution.maxMortgageBalance).toBeCloseTo(300000, 6);
+    expect(solution.payoffNeeded).toBe(0);
+  });
+
+  it('solves for the payoff when CLTV headroom is the limit', () => {
+    const solution = solveForTargetCash(HEI_RULE_SET, property(500000, 350000), 75000);
+    expect(solution.currentAmount).toBeCloseTo(50000, 6);
+    expect(solution.gap).toBeCloseTo(25000, 6);
+    expect(solution.minHomeValue).toBeCloseTo(531250, 6);
+    expect(solution.maxMortgageBalance).toBeCloseTo(325000, 6);
+    expect(solution.payoffNeeded).toBeCloseTo(25000, 6);
+    // Round trip: the solved debt funds exactly the target
+    expect(calculateMaxInvestment(500000, solution.maxMortgageBalance!)).toBeCloseTo(75000, 6);
+  });
+
+  it('only a higher value helps once the share cap binds', () => {
+    const solution = solveForTargetCash(HEI_RULE_SET, property(500000, 200000), 150000);
+    expect(solution.gap).toBeCloseTo(25250, 6);
+    expect(solution.minHomeValue).toBeCloseTo(150000 / 0.2495, 6);
+    expect(solution.maxMortgageBalance).toBeNull();
+    expect(solution.payoffNeeded).toBeNull();
+  });
+
+  it('cannot reach more than the program maximum', () => {
+    const solution = solveForTargetCash(HEI_RULE_SET, property(500000, 0), 600000);
+    expect(solution.minHomeValue).toBeNull();
+    expect(solution.maxMortgageBalance).toBeNull();
+  });
+
+  it('covers payoffs at closing on top of the target', () => {
+    const solution = solveForTargetCash(HEI_RULE_SET, { ...property(500000, 300000), payoffAtClosing: 20000 }, 100000);
+    expect(solution.currentAmount).toBeCloseTo(100000, 6);
+    expect(solution.isReachable).toBe(true);
+    expect(solution.maxMortgageBalance).toBeCloseTo(280000, 6);
+  });
+});
+
+describe('solveForTargetCash (Sale-Leaseback)', () => {
+  it('solves the percent-of-value formula', () => {
+    const solution = solveForTargetCash(SL_RULE_SET, property(500000, 200000), 200000);
+    expect(solution.currentAmount).toBeCloseTo(150000, 6);
+    expect(solution.gap).toBeCloseTo(50000, 6);
+    expect(solution.minHomeValue).toBeCloseTo(400000 / 0.7, 6);
+    expect(solution.maxMortgageBalance).toBeCloseTo(150000, 6);
+    expect(solution.payoffNeeded).toBeCloseTo(50000, 6);
+  });
+});
+
+describe('solveAllProductsForTargetCash', () => {
+  it('separates rules no value or payoff can fix', () => {
+    const [hei, sl] = solveAllProductsForTargetCash(property(500000, 200000, 'TX'), 50000);
+    expect(hei.blockingReasons.map(reason => reason.code)).toEqual(['STATE_NOT_ELIGIBLE']);
+    expect(hei.currentAmount).toBe(0);
+    expect(sl.blockingReasons).toEqual([]);
+    expect(sl.isReachable).toBe(true);
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Reverse Calculator
+ * Works back from the cash a homeowner wants to what the property would need for each
+ * product: a higher value, less debt, or liens paid down before closing.
+ */
+
+import {
+  ProductGuidelines,
+  ProductId,
+  ProductRuleSet,
+  PropertyInput,
+  getActiveGuidelines,
+  getPayoffAmount,
+  getEffectiveRules,
+  evaluateProductEligibility
+} from './productRules';
+import type { IneligibilityReason, IneligibilityReasonCode } from './ineligibilityReasons';
+
+export interface TargetCashSolution {
+  productId: ProductId;
+  targetAmount: number;
+  // Net cash available today (after any payoffs at closing)
+  currentAmount: number;
+  isReachable: boolean;
+  // How far short the current offer is (0 when reachable)
+  gap: number;
+  // Lowest home value that reaches the target at today's debt (null = no value within the program reaches it)
+  minHomeValue: number | null;
+  // Most debt that can remain after closing at today's value (null = unreachable at this value)
+  maxMortgageBalance: number | null;
+  // Debt that would have to be retired before closing to get there (null = paying debt down is not enough)
+  payoffNeeded: number | null;
+  // Reasons no amount of value or debt reduction fixes (state, property type, ownership, borrower)
+  blockingReasons: IneligibilityReason[];
+}
+
+const BLOCKING_REASON_CODES: IneligibilityReasonCode[] = [
+  'STATE_NOT_ELIGIBLE',
+  'PROPERTY_TYPE_NOT_ELIGIBLE',
+  'OWNERSHIP_TYPE_NOT_ELIGIBLE',
+  'BORROWER_NOT_ELIGIBLE'
+];
+
+/**
+ * Solve one product's formula for a target net cash amount
+ */
+export function solveForTargetCash(productRules: ProductRuleSet, property: PropertyInput, targetAmount: number): TargetCashSolution {
+  const { homeValue, mortgageBalance } = property;
+  const rules = getEffectiveRules(productRules, property);
+  const result = evaluateProductEligibility(productRules, property);
+  const formula = rules.cashFormula;
+
+  const payoffAmount = getPayoffAmount(property);
+  const remainingDebt = mortgageBalance - payoffAmount;
+  // Payoffs at closing come out of the funding, so the gross amount has to cover both (and the product minimum)
+  const grossNeeded = Math.max(targetAmount + payoffAmount, rules.minCashAmount);
+  const ltvLimit = rules.maxLTV / 100;
+
+  // Value needed to fund grossNeeded at today's debt, and debt allowed at today's value
+  let valueForCash: number | null;
+  let debtAllowed: number | null;
+  // A sale's LTV limit is on all the debt before closing, including what is paid off at closing
+  const ltvDebt = formula.type === 'percent_of_value' ? mortgageBalance : remainingDebt;
+  if (formula.type === 'percent_of_value') {
+    valueForCash = (grossNeeded + remainingDebt) / formula.percentage;
+    debtAllowed = Math.min(homeValue * formula.percentage - grossNeeded, homeValue * ltvLimit - payoffAmount);
+  } else {
+    const shareRate = formula.maxSharePercentage / formula.exchangeRate;
+    const withinProgram = grossNeeded <= formula.maxAmount;
+    valueForCash = withinProgram ? Math.max((grossNeeded + remainingDebt) / ltvLimit, grossNeeded / shareRate) : null;
+    debtAllowed = withinProgram && homeValue * shareRate >= grossNeeded ? homeValue * ltvLimit - grossNeeded : null;
+  }
+
+  const minHomeValue = valueForCash === null
+    ? null
+    : Math.max(valueForCash, rules.minHomeValue, ltvLimit > 0 ? ltvDebt / ltvLimit : 0);
+  const valueInRange = homeValue >= rules.minHomeValue && homeValue <= rules.maxHomeValue;
+  const maxMortgageBalance = valueInRange && debtAllowed !== null && debtAllowed >= 0 ? debtAllowed : null;
+
+  const currentAmount = result.isEligible ? result.netCashAmount : 0;
+  const isReachable = currentAmount >= targetAmount;
+
+  return {
+    productId: rules.id,
+    targetAmount,
+    currentAmount,
+    isReachable,
+    gap: isReachable ? 0 : targetAmount - currentAmount,
+    minHomeValue: minHomeValue !== null && minHomeValue <= rules.maxHomeValue ? minHomeValue : null,
+    maxMortgageBalance,
+    payoffNeeded: maxMortgageBalance !== null ? Math.max(0, remainingDebt - maxMortgageBalance) : null,
+    blockingReasons: result.reasons.filter(reason => BLOCKING_REASON_CODES.includes(reason.code))
+  };
+}
+
+/**
+ * Solve every product for a target amount (active guidelines unless a version is passed)
+ */
+export function solveAllProductsForTargetCash(
+  property: PropertyInput,
+  targetAmount: number,
+  guidelines: ProductGuidelines = getActiveGuidelines()
+): TargetCashSolution[] {
+  return Object.values(guidelines.rules).map(rules => solveForTargetCash(rules, property, targetAmount));
+}
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { calculateSaleLeaseback, calculateSaleLeasebackOffer } from './slCalculator';
+
+// Golden cases against the built-in guidelines (version 0)
+
+describe('calculateSaleLeaseback', () => {
+  it.each([
+    // homeValue, mortgageBalance, isEligible, availableCash, reason codes
+    [400000, 100000, true, 180000, []],
+    [400000, 260000, true, 20000, []], // exactly 65% LTV
+    [400000, 260001, false, 19999, ['LTV_TOO_HIGH']],
+    [200000, 0, true, 140000, []],
+    [199999, 0, false, 139999.3, ['HOME_VALUE_TOO_LOW']],
+    [1500000, 0, true, 1050000, []],
+    [1500001, 0, false, 1050000.7, ['HOME_VALUE_TOO_HIGH']],
+    [400000, 300000, false, 0, ['LTV_TOO_HIGH']] // cash never goes negative
+  ])('%i value / %i mortgage -> eligible %s', (homeValue, mortgageBalance, isEligible, availableCash, codes) => {
+    const result = calculateSaleLeaseback(homeValue, mortgageBalance, 'FL', 'Single Family', 'Personal');
+    expect(result.isEligible).toBe(isEligible);
+    expect(result.availableCash).toBeCloseTo(availableCash, 6);
+    expect(result.ineligibilityReasons.map(reason => reason.code)).toEqual(codes);
+  });
+
+  it.each([
+    ['NJ', 'Single Family', 'Personal', ['STATE_NOT_ELIGIBLE']],
+    ['FL', 'Condo', 'Personal', ['PROPERTY_TYPE_NOT_ELIGIBLE']],
+    ['FL', 'Single Family', 'Partnership', ['OWNERSHIP_TYPE_NOT_ELIGIBLE']],
+    ['FL', 'Single Family', 'Trust', []]
+  ])('%s / %s / %s', (state, propertyType, ownershipType, codes) => {
+    const result = calculateSaleLeaseback(400000, 100000, state, propertyType, ownershipType);
+    expect(result.ineligibilityReasons.map(reason => reason.code)).toEqual(codes);
+  });
+
+  it('skips the ownership check when no ownership type is given', () => {
+    expect(calculateSaleLeaseback(400000, 100000, 'FL', 'Single Family').isEligible).toBe(true);
+  });
+});
+
+describe('calculateSaleLeasebackOffer', () => {
+  it('builds the proceeds, rent and buyback schedule', () => {
+    const offer = calculateSaleLeasebackOffer(400000, 100000, 'FL', 'Single Family', 'Personal');
+    expect(offer.purchasePrice).toBeCloseTo(280000, 6);
+    expect(offer.closingCosts).toBeCloseTo(5600, 6);
+    expect(offer.transferTaxes).toBeCloseTo(2800, 6);
+    expect(offer.netCashToSeller).toBeCloseTo(171600, 6);
+    expect(offer.monthlyRent).toBeCloseTo(1633.3333, 3);
+    expect(offer.buybackSchedule.map(option => option.year)).toEqual([1, 2, 3, 4, 5]);
+    expect(offer.buybackSchedule[0].price).toBeCloseTo(288400, 6);
+  });
+
+  it('checks LTV on the debt before closing even when liens are paid at closing', () => {
+    const offer = calculateSaleLeasebackOffer(400000, 270000, 'FL', 'Single Family', 'Personal', 270000);
+    expect(offer.isEligible).toBe(false);
+    expect(offer.ineligibilityReasons.map(reason => reason.code)).toEqual(['LTV_TOO_HIGH']);
+    expect(offer.mortgagePayoff).toBe(270000);
+  });
+
+  it('nets liens paid at closing out of the proceeds once', () => {
+    const offer = calculateSaleLeasebackOffer(400000, 100000, 'FL', 'Single Family', 'Personal', 100000);
+    expect(offer.isEligible).toBe(true);
+    expect(offer.netCashToSeller).toBeCloseTo(171600, 6);
+  });
+});
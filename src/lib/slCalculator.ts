@@ -3,30 +3,50 @@
  * Implements StayFrank's Sell & Stay underwriting logic
  */
 
+import { SL_RULE_SET, SL_CASH_FORMULA, SL_LEASEBACK_TERMS, LeasebackTerms, BorrowerProfile, getProductRules, evaluateProductEligibility } from './productRules';
+import type { IneligibilityReason } from './ineligibilityReasons';
+
 export interface SaleLeasebackResult {
   isEligible: boolean;
   availableCash: number;
-  ineligibilityReasons: string[];
+  ineligibilityReasons: IneligibilityReason[];
   ltv: number;
 }
 
+export interface BuybackOption {
+  year: number;
+  price: number;
+}
+
+export interface SaleLeasebackOffer {
+  isEligible: boolean;
+  ineligibilityReasons: IneligibilityReason[];
+  purchasePrice: number;
+  closingCosts: number;
+  transferTaxes: number;
+  mortgagePayoff: number;
+  netCashToSeller: number;
+  capRate: number;
+  annualRent: number;
+  monthlyRent: number;
+  buybackSchedule: BuybackOption[];
+}
+
 // Eligible states for Sale-Leaseback
-export const SL_ELIGIBLE_STATES = [
-  'AZ', 'NV', 'CA', 'CO', 'TX', 'GA', 'FL', 'TN', 'OH', 'IN', 'NC'
-];
+export const SL_ELIGIBLE_STATES = SL_RULE_SET.eligibleStates;
 
 // Only Single Family homes are eligible
-export const SL_ELIGIBLE_PROPERTY_TYPES = ['Single Family'];
+export const SL_ELIGIBLE_PROPERTY_TYPES = SL_RULE_SET.eligiblePropertyTypes || [];
 
 // Min/Max property values
-export const SL_MIN_HOME_VALUE = 200000;
-export const SL_MAX_HOME_VALUE = 1500000;
+export const SL_MIN_HOME_VALUE = SL_RULE_SET.minHomeValue;
+export const SL_MAX_HOME_VALUE = SL_RULE_SET.maxHomeValue;
 
 // Max LTV for eligibility
-export const SL_MAX_LTV = 65;
+export const SL_MAX_LTV = SL_RULE_SET.maxLTV;
 
 // Cash calculation percentage (70% of property value)
-export const SL_CASH_PERCENTAGE = 0.70;
+export const SL_CASH_PERCENTAGE = SL_CASH_FORMULA.percentage;
 
 /**
  * Calculate Sale-Leaseback eligibility and offer
@@ -35,44 +55,83 @@ export function calculateSaleLeaseback(
   homeValue: number,
   mortgageBalance: number,
   state: string,
-  propertyType: string
+  propertyType: string,
+  ownershipType?: string
 ): SaleLeasebackResult {
-  const reasons: string[] = [];
-  
-  // Calculate LTV
-  const ltv = homeValue > 0 ? (mortgageBalance / homeValue) * 100 : 0;
-  
-  // Check state eligibility
-  if (!SL_ELIGIBLE_STATES.includes(state.toUpperCase())) {
-    reasons.push(`State not eligible. Sale-Leaseback is available in: ${SL_ELIGIBLE_STATES.join(', ')}`);
-  }
-  
-  // Check property type
-  if (!SL_ELIGIBLE_PROPERTY_TYPES.includes(propertyType)) {
-    reasons.push('Only Single Family homes are eligible for Sale-Leaseback');
-  }
-  
-  // Check home value range
-  if (homeValue < SL_MIN_HOME_VALUE) {
-    reasons.push(`Property value must be at least $${SL_MIN_HOME_VALUE.toLocaleString()}`);
-  }
-  if (homeValue > SL_MAX_HOME_VALUE) {
-    reasons.push(`Property value cannot exceed $${SL_MAX_HOME_VALUE.toLocaleString()}`);
-  }
-  
-  // Check LTV
-  if (ltv > SL_MAX_LTV) {
-    reasons.push(`LTV must be 65% or less. Current LTV is ${ltv.toFixed(1)}%`);
+  const result = evaluateProductEligibility(getProductRules('sl'), {
+    homeValue,
+    mortgageBalance,
+    state,
+    propertyType,
+    ownershipType
+  });
+
+  // Available cash: (70% of property value) - mortgage balance
+  return {
+    isEligible: result.isEligible,
+    availableCash: result.cashAmount,
+    ineligibilityReasons: result.reasons,
+    ltv: result.ltv
+  };
+}
+
+/**
+ * Full Sale-Leaseback offer: purchase price, costs, net proceeds, rent and repurchase prices.
+ * Eligibility is evaluated like checkDualProductEligibility (state terms, borrower adjustments,
+ * liens paid at closing). Terms default to the active SL guidelines.
+ */
+export function calculateSaleLeasebackOffer(
+  homeValue: number,
+  mortgageBalance: number,
+  state: string,
+  propertyType: string,
+  ownershipType?: string,
+  payoffAtClosing: number = 0,
+  borrower?: BorrowerProfile,
+  terms?: LeasebackTerms
+): SaleLeasebackOffer {
+  const slRules = getProductRules('sl');
+  const leaseback = terms ?? slRules.leasebackTerms ?? SL_LEASEBACK_TERMS;
+  const percentage = slRules.cashFormula.type === 'percent_of_value' ? slRules.cashFormula.percentage : SL_CASH_PERCENTAGE;
+  const result = evaluateProductEligibility(slRules, {
+    homeValue,
+    mortgageBalance,
+    state,
+    propertyType,
+    ownershipType,
+    payoffAtClosing,
+    borrower
+  });
+
+  // Purchase price is the same share of value the eligibility check offers as cash
+  const purchasePrice = homeValue * percentage;
+  const closingCosts = purchasePrice * leaseback.closingCostPercentage;
+  const transferTaxes = purchasePrice * leaseback.transferTaxPercentage;
+  // The sale retires every lien - the evaluated net cash is already after the whole mortgage balance
+  const netCashToSeller = result.netCashAmount - closingCosts - transferTaxes;
+
+  const annualRent = purchasePrice * leaseback.capRate;
+
+  const buybackSchedule: BuybackOption[] = [];
+  for (let year = 1; year <= leaseback.buybackYears; year++) {
+    buybackSchedule.push({
+      year,
+      price: purchasePrice * Math.pow(1 + leaseback.buybackAppreciation, year)
+    });
   }
-  
-  // Calculate available cash: (70% of property value) - mortgage balance
-  const availableCash = Math.max(0, (homeValue * SL_CASH_PERCENTAGE) - mortgageBalance);
-  
+
   return {
-    isEligible: reasons.length === 0,
-    availableCash,
-    ineligibilityReasons: reasons,
-    ltv
+    isEligible: result.isEligible,
+    ineligibilityReasons: result.reasons,
+    purchasePrice,
+    closingCosts,
+    transferTaxes,
+    mortgagePayoff: mortgageBalance,
+    netCashToSeller: Math.max(0, netCashToSeller),
+    capRate: leaseback.capRate,
+    annualRent,
+    monthlyRent: annualRent / 12,
+    buybackSchedule
   };
 }
 
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { findOfferMismatches, getSubmitAction, getUnderwritingStatus, underwrite, type UnderwritingInputs } from './underwriting';
+import { DEFAULT_GUIDELINES } from './productRules';
+import { checkDualProductEligibility } from './heaCalculator';
+import { createLien } from './liens';
+
+const inputs = (overrides: Partial<UnderwritingInputs> = {}): UnderwritingInputs => ({
+  homeValue: 500000,
+  mortgageBalance: 200000,
+  liens: [],
+  state: 'CA',
+  propertyType: 'Single Family',
+  ownershipType: 'Personal',
+  creditScores: [],
+  isCreditScoreLow: false,
+  isEmployed: true,
+  hasLatePayments: false,
+  ...overrides
+});
+
+describe('underwrite', () => {
+  it('matches the wizard offer for the same inputs', () => {
+    const result = underwrite(inputs(), DEFAULT_GUIDELINES);
+    const dual = checkDualProductEligibility(500000, 200000, 'CA', 'Single Family', 'Personal', DEFAULT_GUIDELINES);
+    expect(result.heiEligible).toBe(true);
+    expect(result.heiMaxInvestment).toBe(dual.heiMaxInvestment);
+    expect(result.slEligible).toBe(dual.slEligible);
+    expect(result.guidelineVersion).toBe(0);
+  });
+
+  it('applies borrower answers and payoffs at closing', () => {
+    // CLTV headroom binds at this balance, so the lower max LTV for sub-620 credit shows up in the offer
+    const lowCredit = underwrite(inputs({ mortgageBalance: 300000, isCreditScoreLow: true }), DEFAULT_GUIDELINES);
+    expect(lowCredit.heiMaxInvestment).toBeLessThan(underwrite(inputs({ mortgageBalance: 300000 }), DEFAULT_GUIDELINES).heiMaxInvestment!);
+
+    const taxLien = createLien('tax_lien', 20000, 2);
+    const withPayoff = underwrite(inputs({ mortgageBalance: 220000, liens: [taxLien] }), DEFAULT_GUIDELINES);
+    const dual = checkDualProductEligibility(500000, 220000, 'CA', 'Single Family', 'Personal', DEFAULT_GUIDELINES, 20000);
+    expect(withPayoff.heiMaxInvestment).toBe(dual.heiMaxInvestment);
+  });
+
+  it('nulls the amount of a product that does not qualify', () => {
+    const result = underwrite(inputs({ hasLatePayments: true }), DEFAULT_GUIDELINES);
+    expect(result.heiEligible).toBe(false);
+    expect(result.heiMaxInvestment).toBeNull();
+    expect(result.heiReasons.some(reason => reason.code === 'BORROWER_NOT_ELIGIBLE')).toBe(true);
+  });
+});
+
+describe('findOfferMismatches', () => {
+  const underwritten = underwrite(inputs(), DEFAULT_GUIDELINES);
+  const quote = {
+    slEligible: underwritten.slEligible,
+    slOfferAmount: underwritten.slOfferAmount,
+    heiEligible: underwritten.heiEligible,
+    heiMaxInvestment: underwritten.heiMaxInvestment
+  };
+
+  it('ignores rounding differences', () => {
+    const mismatches = findOfferMismatches({ ...quote, heiMaxInvestment: Math.round(underwritten.heiMaxInvestment!) }, underwritten);
+    expect(mismatches).toEqual([]);
+    expect(getUnderwritingStatus(underwritten, mismatches)).toBe('verified');
+  });
+
+  it('flags an inflated quote', () => {
+    const mismatches = findOfferMismatches({ ...quote, heiMaxInvestment: 250000 }, underwritten);
+    expect(mismatches).toEqual([{ field: 'heiMaxInvestment', quoted: 250000, underwritten: underwritten.heiMaxInvestment }]);
+    expect(getUnderwritingStatus(underwritten, mismatches)).toBe('flagged');
+  });
+
+  it('rejects when neither product qualifies', () => {
+    const declined = underwrite(inputs({ mortgageBalance: 480000 }), DEFAULT_GUIDELINES);
+    const mismatches = findOfferMismatches(quote, declined);
+    expect(mismatches.map(mismatch => mismatch.field)).toContain('heiEligible');
+    expect(getUnderwritingStatus(declined, mismatches)).toBe('rejected');
+  });
+});
+
+describe('getSubmitAction', () => {
+  it('underwrites a pending submission', () => {
+    expect(getSubmitAction('pending', null)).toBe('underwrite');
+  });
+
+  it('resends an underwritten offer after the partner call failed, then refuses once it is sent', () => {
+    expect(getSubmitAction('verified', null)).toBe('resend');
+    expect(getSubmitAction('flagged', null)).toBe('resend');
+    expect(getSubmitAction('verified', 'ea-deal-1')).toBe('submitted');
+  });
+
+  it('never sends a rejected submission', () => {
+    expect(getSubmitAction('rejected', null)).toBe('rejected');
+  });
+});
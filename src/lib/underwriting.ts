@@ -0,0 +1,119 @@
+/**
+ * Underwriting
+ * The offers a submission qualifies for, computed from its raw inputs. The submit-deal edge
+ * function runs this same code (under Deno) and is the authority on persisted offer amounts,
+ * so this module and the rules it depends on import each other with explicit .ts extensions.
+ */
+
+import { checkDualProductEligibility } from './heaCalculator.ts';
+import { buildBorrowerProfile, getActiveGuidelines, type ProductGuidelines } from './productRules.ts';
+import { getPayoffAtClosingBalance, type Lien } from './liens.ts';
+import type { IneligibilityReason } from './ineligibilityReasons.ts';
+
+export interface UnderwritingInputs {
+  homeValue: number;
+  mortgageBalance: number;
+  liens: Lien[];
+  state: string;
+  propertyType: string;
+  ownershipType: string;
+  // Borrower answers (null = not asked)
+  creditScores: string[];
+  isCreditScoreLow: boolean | null;
+  isEmployed: boolean | null;
+  hasLatePayments: boolean | null;
+}
+
+// Mirrors the offer columns on submissions (amounts are null when the product doesn't qualify)
+export interface UnderwritingResult {
+  slEligible: boolean;
+  slOfferAmount: number | null;
+  slReasons: IneligibilityReason[];
+  heiEligible: boolean;
+  heiMaxInvestment: number | null;
+  heiReasons: IneligibilityReason[];
+  guidelineVersion: number;
+}
+
+export type OfferField = 'slEligible' | 'slOfferAmount' | 'heiEligible' | 'heiMaxInvestment';
+
+export type QuotedOffer = Pick<UnderwritingResult, OfferField>;
+
+export interface OfferMismatch {
+  field: OfferField;
+  quoted: boolean | number | null;
+  underwritten: boolean | number | null;
+}
+
+export type UnderwritingStatus = 'pending' | 'verified' | 'flagged' | 'rejected';
+
+export type SubmitAction = 'underwrite' | 'resend' | 'submitted' | 'rejected';
+
+// Quoted amounts within a dollar of the recomputed offer are rounding, not a mismatch
+export const OFFER_AMOUNT_TOLERANCE = 1;
+
+const OFFER_FIELDS: OfferField[] = ['slEligible', 'slOfferAmount', 'heiEligible', 'heiMaxInvestment'];
+
+/**
+ * Underwrite both products from the submission's inputs (active guidelines unless a version is passed)
+ */
+export function underwrite(inputs: UnderwritingInputs, guidelines: ProductGuidelines = getActiveGuidelines()): UnderwritingResult {
+  const borrower = buildBorrowerProfile({
+    creditScores: inputs.creditScores,
+    isCreditScoreLow: inputs.isCreditScoreLow,
+    isEmployed: inputs.isEmployed,
+    hasLatePayments: inputs.hasLatePayments
+  });
+  const dual = checkDualProductEligibility(
+    inputs.homeValue,
+    inputs.mortgageBalance,
+    inputs.state,
+    inputs.propertyType,
+    inputs.ownershipType,
+    guidelines,
+    getPayoffAtClosingBalance(inputs.liens),
+    borrower
+  );
+
+  return {
+    slEligible: dual.slEligible,
+    slOfferAmount: dual.slEligible ? dual.slOfferAmount : null,
+    slReasons: dual.slReasons,
+    heiEligible: dual.heiEligible,
+    heiMaxInvestment: dual.heiEligible ? dual.heiMaxInvestment : null,
+    heiReasons: dual.heiReasons,
+    guidelineVersion: guidelines.version
+  };
+}
+
+/**
+ * Offer fields where the quote shown to the user differs from the underwritten offer
+ */
+export function findOfferMismatches(quoted: QuotedOffer, underwritten: UnderwritingResult): OfferMismatch[] {
+  return OFFER_FIELDS
+    .filter(field => {
+      const a = quoted[field] ?? null;
+      const b = underwritten[field] ?? null;
+      if (typeof a === 'number' && typeof b === 'number') return Math.abs(a - b) > OFFER_AMOUNT_TOLERANCE;
+      return a !== b;
+    })
+    .map(field => ({ field, quoted: quoted[field] ?? null, underwritten: underwritten[field] ?? null }));
+}
+
+/**
+ * Verified when the quote matches, flagged when it doesn't, rejected when nothing qualifies
+ */
+export function getUnderwritingStatus(underwritten: UnderwritingResult, mismatches: OfferMismatch[]): UnderwritingStatus {
+  if (!underwritten.slEligible && !underwritten.heiEligible) return 'rejected';
+  return mismatches.length > 0 ? 'flagged' : 'verified';
+}
+
+/**
+ * What submit-deal does with a submission: underwrite a pending one, resend an underwritten offer
+ * the partner never received (the EquityAdvance call failed), or refuse one already sent or rejected
+ */
+export function getSubmitAction(status: UnderwritingStatus, partnerDealId: string | null): SubmitAction {
+  if (status === 'pending') return 'underwrite';
+  if (status === 'rejected') return 'rejected';
+  return partnerDealId ? 'submitted' : 'resend';
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { getValuationWarnings, selectAttomValuation, unrangedValuation } from './valuation';
+
+describe('selectAttomValuation', () => {
+  it('uses the AVM with its range, confidence and FSD', () => {
+    const avm = { property: [{ avm: { amount: { value: 512345.6, low: 480000, high: 545000, scr: 87, fsd: 7 } } }] };
+
+    expect(selectAttomValuation(avm, null)).toEqual({
+      value: 512346,
+      source: 'avm',
+      low: 480000,
+      high: 545000,
+      confidence: 87,
+      fsd: 0.07
+    });
+  });
+
+  it('keeps an FSD already given as a fraction', () => {
+    const avm = { property: [{ avm: { amount: { value: 400000, fsd: 0.12 } } }] };
+
+    expect(selectAttomValuation(avm, null).fsd).toBe(0.12);
+  });
+
+  it.each([
+    ['assessor market value', { property: [{ assessment: { market: { mktttlvalue: 450000 } } }] }, null, 450000, 'assessment_market'],
+    ['profile market value', null, { property: [{ assessment: { market: { mktTtlValue: 440000 } } }] }, 440000, 'assessment_market'],
+    ['assessed value', null, { property: [{ assessment: { assessed: { assdTtlValue: 300000 } } }] }, 300000, 'assessment'],
+    ['last sale', { property: [{ sale: { amount: { saleAmt: 390000 } } }] }, { property: [{}] }, 390000, 'last_sale'],
+    ['nothing', null, null, 0, 'none']
+  ])('falls back to the %s', (_label, avm, profile, value, source) => {
+    expect(selectAttomValuation(avm, profile)).toEqual(unrangedValuation(value, source as 'none'));
+  });
+});
+
+describe('getValuationWarnings', () => {
+  const avm = (confidence: number | null, fsd: number | null) =>
+    ({ value: 500000, source: 'avm' as const, low: 450000, high: 550000, confidence, fsd });
+
+  it('has no warnings for a confident AVM', () => {
+    expect(getValuationWarnings(avm(88, 0.06))).toEqual([]);
+    expect(getValuationWarnings(avm(null, null))).toEqual([]);
+  });
+
+  it('warns on low confidence and a wide FSD', () => {
+    expect(getValuationWarnings(avm(62, 0.24))).toEqual([
+      'Low AVM confidence (62/100) - verify the value with comparable sales',
+      'Wide AVM spread (FSD 24%) - the true value may differ substantially'
+    ]);
+  });
+
+  it.each([
+    ['assessment_market', /tax assessment/],
+    ['assessment', /tax assessment/],
+    ['last_sale', /last sale price/],
+    ['none', /enter the home value/]
+  ] as const)('warns when the value comes from %s', (source, message) => {
+    const warnings = getValuationWarnings(unrangedValuation(300000, source));
+
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]).toMatch(message);
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Property Valuation
+ * Where the home value came from and how far to trust it. ATTOM's AVM carries a confidence
+ * score (0-100), a high/low range and a forecast standard deviation (FSD); when there is no
+ * AVM the value falls back to the tax assessment or the last sale, which can be years stale.
+ * Shared with atom-property-lookup (Deno).
+ */
+
+export type ValueSource = 'avm' | 'assessment_market' | 'assessment' | 'last_sale' | 'none';
+
+export interface PropertyValuation {
+  value: number;
+  source: ValueSource;
+  low: number | null;
+  high: number | null;
+  // Vendor confidence score, 0-100
+  confidence: number | null;
+  // Forecast standard deviation as a fraction (0.1 = the value is within +/-10% about 68% of the time)
+  fsd: number | null;
+}
+
+export const VALUE_SOURCE_LABELS: Record<ValueSource, string> = {
+  avm: 'Automated valuation (AVM)',
+  assessment_market: 'Tax assessor market value',
+  assessment: 'Tax assessed value',
+  last_sale: 'Last sale price',
+  none: 'No value found'
+};
+
+// AVMs below this confidence score, or above this FSD, should be checked by the officer
+export const LOW_AVM_CONFIDENCE_SCORE = 70;
+export const HIGH_AVM_FSD = 0.2;
+
+// The parts of ATTOM's AVM and basic profile payloads we read
+interface AttomValuationProperty {
+  avm?: { amount?: { value?: number; low?: number; high?: number; scr?: number; fsd?: number } };
+  assessment?: {
+    market?: { mktttlvalue?: number; mktTtlValue?: number };
+    assessed?: { assdttlvalue?: number; assdTtlValue?: number };
+  };
+  sale?: { amount?: { saleamt?: number; saleAmt?: number } };
+}
+
+export interface AttomValuationPayload {
+  property?: AttomValuationProperty[];
+}
+
+const positive = (value?: number) => (value && value > 0 ? value : null);
+
+// ATTOM reports FSD as a percentage on some responses and as a fraction on others
+const toFraction = (fsd?: number) => (fsd && fsd > 0 ? (fsd > 1 ? fsd / 100 : fsd) : null);
+
+/**
+ * A value with no range or confidence (assessments, sale prices)
+ */
+export function unrangedValuation(value: number, source: ValueSource): PropertyValuation {
+  return { value: Math.round(value), source, low: null, high: null, confidence: null, fsd: null };
+}
+
+/**
+ * Home value from ATTOM in priority order: AVM, assessor market value, assessed value,
+ * last sale. Only the AVM comes with a range and confidence.
+ */
+export function selectAttomValuation(avmData: AttomValuationPayload | null, propertyData: AttomValuationPayload | null): PropertyValuation {
+  const avmProperty = avmData?.property?.[0];
+  const property = propertyData?.property?.[0];
+  const amount = avmProperty?.avm?.amount;
+
+  const avmValue = positive(amount?.value);
+  if (avmValue) {
+    return {
+      value: Math.round(avmValue),
+      source: 'avm',
+      low: positive(amount?.low),
+      high: positive(amount?.high),
+      confidence: positive(amount?.scr),
+      fsd: toFraction(amount?.fsd)
+    };
+  }
+
+  const marketValue = positive(avmProperty?.assessment?.market?.mktttlvalue) || positive(property?.assessment?.market?.mktTtlValue);
+  if (marketValue) return unrangedValuation(marketValue, 'assessment_market');
+
+  const assessedValue = positive(property?.assessment?.assessed?.assdTtlValue) || positive(avmProperty?.assessment?.assessed?.assdttlvalue);
+  if (assessedValue) return unrangedValuation(assessedValue, 'assessment');
+
+  const saleAmount = positive(avmProperty?.sale?.amount?.saleAmt) || positive(avmProperty?.sale?.amount?.saleamt);
+  if (saleAmount) return unrangedValuation(saleAmount, 'last_sale');
+
+  return unrangedValuation(0, 'none');
+}
+
+/**
+ * Why the officer should double-check the home value, if they should
+ */
+export function getValuationWarnings(valuation: PropertyValuation): string[] {
+  const warnings: string[] = [];
+
+  if (valuation.source === 'avm') {
+    if (valuation.confidence !== null && valuation.confidence < LOW_AVM_CONFIDENCE_SCORE) {
+      warnings.push(`Low AVM confidence (${valuation.confidence}/100) - verify the value with comparable sales`);
+    }
+    if (valuation.fsd !== null && valuation.fsd > HIGH_AVM_FSD) {
+      warnings.push(`Wide AVM spread (FSD ${Math.round(valuation.fsd * 100)}%) - the true value may differ substantially`);
+    }
+  } else if (valuation.source === 'assessment_market' || valuation.source === 'assessment') {
+    warnings.push('No AVM available - value is from the tax assessment, which often lags the market');
+  } else if (valuation.source === 'last_sale') {
+    warnings.push('No AVM available - value is the last sale price and may be out of date');
+  } else {
+    warnings.push('No value found in public records - enter the home value');
+  }
+
+  return warnings;
+}
@@ -18,7 +18,8 @@ import {
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { useToast } from '@/hooks/use-toast';
 import { FundingReasonsManager } from '@/components/FundingReasonsManager';
-import { Check, X, LogOut, ArrowLeft, Building2, Phone, Mail, Calendar, ChevronDown, ChevronRight, Users, Ban, Settings } from 'lucide-react';
+import { ProductGuidelinesManager } from '@/components/ProductGuidelinesManager';
+import { Check, X, LogOut, ArrowLeft, Building2, Phone, Mail, Calendar, ChevronDown, ChevronRight, Users, Ban, Settings, SlidersHorizontal } from 'lucide-react';
 import type { Database } from '@/integrations/supabase/types';
 
 type Profile = Database['public']['Tables']['profiles']['Row'];
@@ -583,7 +584,11 @@ export default function AdminDashboard() {
                 <TabsTrigger value="denied">
                   Denied ({filterByStatus('denied').length})
                 </TabsTrigger>
-                <TabsTrigger value="settings" className="ml-auto">
+                <TabsTrigger value="guidelines" className="ml-auto">
+                  <SlidersHorizontal className="h-4 w-4 mr-1" />
+                  Guidelines
+                </TabsTrigger>
+                <TabsTrigger value="settings">
                   <Settings className="h-4 w-4 mr-1" />
                   Settings
                 </TabsTrigger>
@@ -597,6 +602,9 @@ export default function AdminDashboard() {
               <TabsContent value="denied">
                 <UserTable users={filterByStatus('denied')} showActions />
               </TabsContent>
+              <TabsContent value="guidelines">
+                <ProductGuidelinesManager />
+              </TabsContent>
               <TabsContent value="settings">
                 <FundingReasonsManager />
               </TabsContent>
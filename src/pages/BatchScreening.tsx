@@ -0,0 +1,311 @@
+import { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, ArrowUpDown, CheckCircle2, Download, FileUp, Loader2, Send, XCircle, AlertCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from '@/hooks/use-toast';
+import { useProductGuidelines } from '@/hooks/useProductGuidelines';
+import { supabase } from '@/integrations/supabase/client';
+import { lookupProperty } from '@/lib/api/providers';
+import { LeadRow, ScreeningResult, mapWithConcurrency, parseLeadCsv, screenLead, toResultsCsv } from '@/lib/batchScreening';
+import { formatCurrency, formatPercentage } from '@/lib/heaCalculator';
+import { parseOwnerNames } from '@/lib/ownerNames';
+
+// ATTOM lookups in flight at once
+const LOOKUP_CONCURRENCY = 3;
+
+type SortKey = 'address' | 'status' | 'state' | 'homeValue' | 'cltv' | 'bestAmount';
+
+const COLUMNS: { key: SortKey; label: string; numeric?: boolean }[] = [
+  { key: 'address', label: 'Address' },
+  { key: 'status', label: 'Status' },
+  { key: 'state', label: 'State' },
+  { key: 'homeValue', label: 'Value', numeric: true },
+  { key: 'cltv', label: 'CLTV', numeric: true },
+  { key: 'bestAmount', label: 'Best Offer', numeric: true },
+];
+
+const sortValue = (result: ScreeningResult, key: SortKey) => (key === 'address' ? result.lead.address : result[key]);
+
+export default function BatchScreening() {
+  const navigate = useNavigate();
+  // Loads the published guidelines so every row is screened against the live version
+  useProductGuidelines();
+
+  const [fileName, setFileName] = useState('');
+  const [leads, setLeads] = useState<LeadRow[]>([]);
+  const [parseErrors, setParseErrors] = useState<string[]>([]);
+  const [results, setResults] = useState<ScreeningResult[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [completed, setCompleted] = useState(0);
+  const [sort, setSort] = useState<{ key: SortKey; ascending: boolean }>({ key: 'bestAmount', ascending: false });
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [isPromoting, setIsPromoting] = useState(false);
+
+  const sortedResults = useMemo(() => {
+    return [...results].sort((a, b) => {
+      const left = sortValue(a, sort.key);
+      const right = sortValue(b, sort.key);
+      const order = typeof left === 'number' && typeof right === 'number'
+        ? left - right
+        : String(left).localeCompare(String(right));
+      return sort.ascending ? order : -order;
+    });
+  }, [results, sort]);
+
+  const promotable = results.filter(result => result.status !== 'error');
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const { leads: parsed, errors } = parseLeadCsv(await file.text());
+    setFileName(file.name);
+    setLeads(parsed);
+    setParseErrors(errors);
+    setResults([]);
+    setSelected(new Set());
+  };
+
+  const runScreening = async () => {
+    setIsRunning(true);
+    setCompleted(0);
+    setResults([]);
+    setSelected(new Set());
+    try {
+      await mapWithConcurrency(leads, LOOKUP_CONCURRENCY, lead => screenLead(lead, lookupProperty), result => {
+        setResults(prev => [...prev, result]);
+        setCompleted(prev => prev + 1);
+      });
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const toggleSort = (key: SortKey) => {
+    setSort(prev => ({ key, ascending: prev.key === key ? !prev.ascending : key === 'address' || key === 'state' }));
+  };
+
+  const toggleRow = (rowNumber: number, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (checked) {
+        next.add(rowNumber);
+      } else {
+        next.delete(rowNumber);
+      }
+      return next;
+    });
+  };
+
+  const downloadCsv = () => {
+    const blob = new Blob([toResultsCsv(sortedResults)], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${fileName.replace(/\.csv$/i, '') || 'leads'}-screening.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const promoteSelected = async () => {
+    const rows = promotable.filter(result => selected.has(result.lead.rowNumber));
+    if (rows.length === 0) return;
+
+    setIsPromoting(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        toast({ title: 'Error', description: 'You must be logged in to create submissions', variant: 'destructive' });
+        return;
+      }
+
+      // Only the raw inputs are stored - submit-deal underwrites each one server-side, as for the wizard
+      const { data: submissions, error } = await supabase.from('submissions').insert(rows.map(result => ({
+        user_id: user.id,
+        property_address: result.lead.address,
+        home_value: result.homeValue,
+        mortgage_balance: result.mortgageBalance,
+        owner_names: parseOwnerNames(result.ownerNames || '').map(owner => owner.name),
+        property_type: result.propertyType,
+        ownership_type: result.ownershipType,
+        state: result.state,
+      }))).select('id');
+
+      if (error || !submissions) throw error;
+
+      // The screening result is only the quote submit-deal compares its own offer against
+      let notQualified = 0;
+      let failed = 0;
+      for (const [i, submission] of submissions.entries()) {
+        const result = rows[i];
+        const { error: submitError } = await supabase.functions.invoke('submit-deal', {
+          body: {
+            submission_id: submission.id,
+            sl_eligible: result.slEligible,
+            sl_offer_amount: result.slEligible ? result.slOfferAmount : null,
+            hei_eligible: result.heiEligible,
+            hei_max_investment: result.heiEligible ? result.heiMaxInvestment : null,
+          }
+        });
+        if (submitError?.context?.status === 422) {
+          notQualified++;
+        } else if (submitError) {
+          console.error('Error submitting promoted lead:', submitError);
+          failed++;
+        }
+      }
+
+      const notes = [
+        notQualified > 0 ? `${notQualified} did not qualify when verified` : '',
+        failed > 0 ? `${failed} could not be sent to the partner` : ''
+      ].filter(Boolean).join(', ');
+      toast({
+        title: 'Submissions created',
+        description: `${rows.length} lead${rows.length === 1 ? '' : 's'} added to your submissions${notes ? ` (${notes})` : ''}`
+      });
+      setSelected(new Set());
+    } catch (error) {
+      console.error('Error promoting leads:', error);
+      toast({ title: 'Error', description: 'Failed to create submissions', variant: 'destructive' });
+    } finally {
+      setIsPromoting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border bg-card">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <Button variant="ghost" size="sm" onClick={() => navigate('/')}>
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back
+              </Button>
+              <div className="text-2xl font-bold">
+                <span className="text-[hsl(38,78%,57%)]">Stay</span>
+                <span className="text-[hsl(276,40%,17%)]">Frank</span>
+                <span className="text-[hsl(38,78%,57%)]">.</span>
+              </div>
+            </div>
+            <h1 className="text-xl font-semibold text-foreground">Batch Screening</h1>
+          </div>
+        </div>
+      </header>
+
+      {/* Content */}
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        <Card className="shadow-sm">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-semibold text-muted-foreground uppercase tracking-wide flex items-center gap-2">
+              <FileUp className="w-4 h-4" />
+              Lead List
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Upload a CSV with an <span className="font-medium">address</span> column and optional <span className="font-medium">value</span> and <span className="font-medium">balance</span> columns. Values in the file replace the ATTOM estimates.
+            </p>
+            <div className="flex flex-col md:flex-row gap-3 md:items-center">
+              <Input type="file" accept=".csv,text/csv" className="md:max-w-sm" onChange={(e) => handleFile(e.target.files?.[0])} disabled={isRunning} />
+              <Button onClick={runScreening} disabled={leads.length === 0 || isRunning}>
+                {isRunning ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <CheckCircle2 className="h-4 w-4 mr-2" />}
+                Screen {leads.length} Lead{leads.length === 1 ? '' : 's'}
+              </Button>
+            </div>
+            {parseErrors.length > 0 && (
+              <div className="rounded-lg border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive space-y-1">
+                {parseErrors.map(error => (
+                  <p key={error} className="flex items-center gap-2"><AlertCircle className="h-4 w-4" />{error}</p>
+                ))}
+              </div>
+            )}
+            {(isRunning || completed > 0) && leads.length > 0 && (
+              <div className="space-y-1">
+                <Progress value={(completed / leads.length) * 100} />
+                <p className="text-xs text-muted-foreground">{completed} of {leads.length} screened</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {results.length > 0 && (
+          <Card className="shadow-sm">
+            <CardHeader className="pb-2">
+              <div className="flex items-center justify-between">
+                <CardTitle className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">
+                  Results ({results.filter(result => result.status === 'eligible').length} eligible)
+                </CardTitle>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={downloadCsv} disabled={isRunning}>
+                    <Download className="h-4 w-4 mr-2" />
+                    Download CSV
+                  </Button>
+                  <Button size="sm" onClick={promoteSelected} disabled={selected.size === 0 || isPromoting || isRunning}>
+                    {isPromoting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+                    Promote {selected.size > 0 ? selected.size : ''} to Submissions
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[40px]">
+                      <Checkbox
+                        checked={promotable.length > 0 && selected.size === promotable.length}
+                        onCheckedChange={(checked) => setSelected(checked ? new Set(promotable.map(result => result.lead.rowNumber)) : new Set())}
+                      />
+                    </TableHead>
+                    {COLUMNS.map(column => (
+                      <TableHead key={column.key} className={column.numeric ? 'text-right' : ''}>
+                        <button type="button" className="inline-flex items-center gap-1 hover:text-foreground" onClick={() => toggleSort(column.key)}>
+                          {column.label}
+                          <ArrowUpDown className={`h-3 w-3 ${sort.key === column.key ? 'text-foreground' : 'opacity-40'}`} />
+                        </button>
+                      </TableHead>
+                    ))}
+                    <TableHead>SL</TableHead>
+                    <TableHead>HEI</TableHead>
+                    <TableHead>Notes</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sortedResults.map(result => (
+                    <TableRow key={result.lead.rowNumber}>
+                      <TableCell>
+                        <Checkbox
+                          checked={selected.has(result.lead.rowNumber)}
+                          disabled={result.status === 'error'}
+                          onCheckedChange={(checked) => toggleRow(result.lead.rowNumber, !!checked)}
+                        />
+                      </TableCell>
+                      <TableCell className="font-medium">{result.lead.address}</TableCell>
+                      <TableCell>
+                        {result.status === 'eligible' && <span className="inline-flex items-center gap-1 text-emerald-600"><CheckCircle2 className="h-4 w-4" />Eligible</span>}
+                        {result.status === 'ineligible' && <span className="inline-flex items-center gap-1 text-destructive"><XCircle className="h-4 w-4" />Ineligible</span>}
+                        {result.status === 'error' && <span className="inline-flex items-center gap-1 text-muted-foreground"><AlertCircle className="h-4 w-4" />Error</span>}
+                      </TableCell>
+                      <TableCell>{result.state}</TableCell>
+                      <TableCell className="text-right">{result.homeValue > 0 ? formatCurrency(result.homeValue) : '-'}</TableCell>
+                      <TableCell className="text-right">{result.status === 'error' ? '-' : formatPercentage(result.cltv)}</TableCell>
+                      <TableCell className="text-right font-semibold">{result.bestAmount > 0 ? formatCurrency(result.bestAmount) : '-'}</TableCell>
+                      <TableCell>{result.slEligible ? formatCurrency(result.slOfferAmount) : '-'}</TableCell>
+                      <TableCell>{result.heiEligible ? formatCurrency(result.heiMaxInvestment) : '-'}</TableCell>
+                      <TableCell className="text-xs text-muted-foreground max-w-[280px]">{result.error || result.reasons.join('; ')}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+}
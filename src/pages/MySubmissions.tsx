@@ -3,8 +3,9 @@ import { useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { Button } from '@/components/ui/button';
-import { CheckCircle2, XCircle, Home, Calendar, ArrowLeft, Loader2 } from 'lucide-react';
+import { CheckCircle2, XCircle, Home, Calendar, ArrowLeft, Loader2, AlertTriangle } from 'lucide-react';
 import { formatCurrency } from '@/lib/heaCalculator';
+import { OfferChange, formatOfferChange, isOfferExpired } from '@/lib/offerRevisions';
 
 interface Submission {
   id: string;
@@ -15,6 +16,12 @@ interface Submission {
   hei_eligible: boolean;
   sl_offer_amount: number | null;
   hei_max_investment: number | null;
+  offer_expires_at: string | null;
+}
+
+// Latest re-underwriting of a submission that changed its offer materially and hasn't been dismissed
+interface OfferChangeFlag {
+  changes: OfferChange[];
 }
 
 export default function MySubmissions() {
@@ -22,6 +29,7 @@ export default function MySubmissions() {
   const { user, isAdmin, userRole } = useAuth();
   const [submissions, setSubmissions] = useState<Submission[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [offerChanges, setOfferChanges] = useState<Record<string, OfferChangeFlag>>({});
 
   useEffect(() => {
     const fetchSubmissions = async () => {
@@ -31,7 +39,7 @@ export default function MySubmissions() {
       try {
         let query = supabase
           .from('submissions')
-          .select('id, property_address, owner_names, created_at, sl_eligible, hei_eligible, sl_offer_amount, hei_max_investment')
+          .select('id, property_address, owner_names, created_at, sl_eligible, hei_eligible, sl_offer_amount, hei_max_investment, offer_expires_at')
           .order('created_at', { ascending: false });
 
         // If manager, also fetch officer submissions
@@ -59,6 +67,21 @@ export default function MySubmissions() {
         } else {
           setSubmissions(data || []);
         }
+
+        // Material offer changes from re-underwriting (RLS limits these to the submissions above)
+        const { data: revisions } = await supabase
+          .from('offer_revisions')
+          .select('submission_id, changes')
+          .eq('is_material_change', true)
+          .is('acknowledged_at', null)
+          .order('revision', { ascending: true });
+
+        const flags: Record<string, OfferChangeFlag> = {};
+        (revisions || []).forEach(revision => {
+          // Latest revision wins; dismissing acknowledges all of them
+          flags[revision.submission_id] = { changes: (revision.changes || []) as unknown as OfferChange[] };
+        });
+        setOfferChanges(flags);
       } finally {
         setIsLoading(false);
       }
@@ -77,6 +100,57 @@ export default function MySubmissions() {
     });
   };
 
+  const dismissOfferChange = async (submissionId: string) => {
+    if (!offerChanges[submissionId]) return;
+
+    const { error } = await supabase
+      .from('offer_revisions')
+      .update({ acknowledged_at: new Date().toISOString() })
+      .eq('submission_id', submissionId)
+      .is('acknowledged_at', null);
+
+    if (error) {
+      console.error('Error dismissing offer change:', error);
+      return;
+    }
+    setOfferChanges(prev => {
+      const next = { ...prev };
+      delete next[submissionId];
+      return next;
+    });
+  };
+
+  const renderOfferExpiry = (submission: Submission) => {
+    if (!submission.offer_expires_at) return null;
+    const expired = isOfferExpired(submission.offer_expires_at);
+    return (
+      <div className={`text-xs ${expired ? 'text-amber-600' : 'text-muted-foreground'}`}>
+        {expired ? 'Offer expired - refresh pending' : `Offer valid until ${new Date(submission.offer_expires_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`}
+      </div>
+    );
+  };
+
+  const renderOfferChange = (submission: Submission) => {
+    const flag = offerChanges[submission.id];
+    if (!flag) return null;
+    return (
+      <div className="mt-2 rounded-lg border border-amber-300 bg-amber-50 p-2 text-xs text-amber-800 space-y-1">
+        <div className="flex items-center justify-between gap-2">
+          <span className="inline-flex items-center gap-1 font-semibold">
+            <AlertTriangle className="h-3.5 w-3.5" />
+            Offer changed on re-underwriting
+          </span>
+          <button type="button" className="underline hover:no-underline" onClick={() => dismissOfferChange(submission.id)}>
+            Dismiss
+          </button>
+        </div>
+        {flag.changes.filter(change => change.isMaterial).map(change => (
+          <p key={change.field}>{formatOfferChange(change)}</p>
+        ))}
+      </div>
+    );
+  };
+
   const getOwnerName = (ownerNames: string[]) => {
     if (!ownerNames || ownerNames.length === 0) return 'Unknown';
     return ownerNames[0];
@@ -140,12 +214,14 @@ export default function MySubmissions() {
                     <tr key={submission.id} className="border-b border-border hover:bg-secondary/50">
                       <td className="py-4 px-4">
                         <div className="font-medium text-foreground">{submission.property_address}</div>
+                        {renderOfferChange(submission)}
                       </td>
                       <td className="py-4 px-4 text-muted-foreground">
                         {getOwnerName(submission.owner_names)}
                       </td>
                       <td className="py-4 px-4 text-muted-foreground text-sm">
                         {formatDate(submission.created_at)}
+                        {renderOfferExpiry(submission)}
                       </td>
                       <td className="py-4 px-4 text-center">
                         {submission.sl_eligible ? (
@@ -186,6 +262,7 @@ export default function MySubmissions() {
                   <div>
                     <p className="text-xs text-muted-foreground">Property</p>
                     <p className="font-medium text-foreground">{submission.property_address}</p>
+                    {renderOfferChange(submission)}
                   </div>
                   <div className="flex justify-between">
                     <div>
@@ -195,6 +272,7 @@ export default function MySubmissions() {
                     <div className="text-right">
                       <p className="text-xs text-muted-foreground">Submitted</p>
                       <p className="text-sm text-foreground">{formatDate(submission.created_at)}</p>
+                      {renderOfferExpiry(submission)}
                     </div>
                   </div>
                   <div className="flex justify-between pt-2 border-t border-border">
@@ -0,0 +1,258 @@
+import { useMemo } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, CheckCircle2, XCircle, Link2, Home, Percent } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { EligibilityTracePanel } from '@/components/EligibilityTracePanel';
+import { toast } from '@/hooks/use-toast';
+import { useProductGuidelines } from '@/hooks/useProductGuidelines';
+import { calculateHEACost, checkDualProductEligibility, formatCurrency, formatPercentage, HEA_SCHEDULE_YEARS } from '@/lib/heaCalculator';
+import { formatIneligibilityReasons } from '@/lib/ineligibilityReasons';
+import { ALL_STATES, OWNERSHIP_TYPES, PROPERTY_TYPES } from '@/lib/propertyOptions';
+import { QuickQuoteInputs, decodeQuickQuote, encodeQuickQuote } from '@/lib/quickQuote';
+
+export default function QuickQuote() {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { guidelines } = useProductGuidelines();
+
+  // The URL is the source of truth, so the current quote can always be shared as a link
+  const inputs = useMemo(() => decodeQuickQuote(searchParams), [searchParams]);
+  const update = (patch: Partial<QuickQuoteInputs>) => {
+    setSearchParams(encodeQuickQuote({ ...inputs, ...patch }), { replace: true });
+  };
+
+  const { homeValue, mortgageBalance, state, propertyType, ownershipType, settlementYear, hpaRate } = inputs;
+
+  const dualEligibility = useMemo(() => {
+    if (!state) return null;
+    return checkDualProductEligibility(homeValue, mortgageBalance, state, propertyType, ownershipType, guidelines);
+  }, [homeValue, mortgageBalance, state, propertyType, ownershipType, guidelines]);
+
+  // HEI cost if the homeowner takes the full amount
+  const heaCost = useMemo(() => {
+    if (!dualEligibility?.heiEligible) return null;
+    return calculateHEACost(dualEligibility.heiMaxInvestment, homeValue, settlementYear, hpaRate / 100, state);
+  }, [dualEligibility, homeValue, settlementYear, hpaRate, state]);
+
+  const currentCLTV = homeValue > 0 ? (mortgageBalance / homeValue) * 100 : 0;
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast({
+        title: 'Copied!',
+        description: 'Quote link copied to clipboard',
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to copy link',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const parseAmount = (value: string) => parseInt(value.replace(/[^0-9]/g, '')) || 0;
+
+  const renderProductResult = (name: string, eligible: boolean, amount: number, reasons: string[], Icon: typeof Home) => (
+    <Card className={`shadow-sm border-2 ${eligible ? 'border-emerald-500/30' : 'border-destructive/20'}`}>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-semibold text-muted-foreground uppercase tracking-wide flex items-center gap-2">
+          <Icon className="w-4 h-4" />
+          {name}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <div className="flex items-center gap-2">
+          {eligible ? <CheckCircle2 className="w-5 h-5 text-emerald-500" /> : <XCircle className="w-5 h-5 text-destructive" />}
+          <span className="text-2xl font-bold">{eligible ? formatCurrency(amount) : 'Not eligible'}</span>
+        </div>
+        {reasons.map((reason, i) => (
+          <p key={i} className="text-xs text-muted-foreground">{reason}</p>
+        ))}
+      </CardContent>
+    </Card>
+  );
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border bg-card">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <Button variant="ghost" size="sm" onClick={() => navigate('/')}>
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back
+              </Button>
+              <div className="text-2xl font-bold">
+                <span className="text-[hsl(38,78%,57%)]">Stay</span>
+                <span className="text-[hsl(276,40%,17%)]">Frank</span>
+                <span className="text-[hsl(38,78%,57%)]">.</span>
+              </div>
+            </div>
+            <h1 className="text-xl font-semibold text-foreground">Quick Quote</h1>
+          </div>
+        </div>
+      </header>
+
+      {/* Content */}
+      <main className="container mx-auto px-4 py-8 max-w-4xl space-y-6">
+        <Card className="shadow-sm">
+          <CardHeader className="pb-2">
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">Scenario</CardTitle>
+              <Button variant="outline" size="sm" onClick={copyLink}>
+                <Link2 className="h-4 w-4 mr-2" />
+                Copy Link
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Home Value</Label>
+                <Input
+                  value={formatCurrency(homeValue)}
+                  onChange={(e) => update({ homeValue: parseAmount(e.target.value) })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Total Liens</Label>
+                <Input
+                  value={formatCurrency(mortgageBalance)}
+                  onChange={(e) => update({ mortgageBalance: parseAmount(e.target.value) })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>CLTV</Label>
+                <p className="h-10 flex items-center text-lg font-bold">{formatPercentage(currentCLTV)}</p>
+              </div>
+              <div className="space-y-2">
+                <Label>State</Label>
+                <Select value={state} onValueChange={(value) => update({ state: value })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select state" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ALL_STATES.map(s => (
+                      <SelectItem key={s.abbr} value={s.abbr}>{s.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Property Type</Label>
+                <Select value={propertyType} onValueChange={(value) => update({ propertyType: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PROPERTY_TYPES.map(type => (
+                      <SelectItem key={type} value={type}>{type}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Ownership</Label>
+                <Select value={ownershipType} onValueChange={(value) => update({ ownershipType: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {OWNERSHIP_TYPES.map(type => (
+                      <SelectItem key={type} value={type}>{type}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {!dualEligibility ? (
+          <p className="text-center text-muted-foreground">Select a state to price this scenario.</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {renderProductResult(
+                'Sale-Leaseback',
+                dualEligibility.slEligible,
+                dualEligibility.slOfferAmount,
+                formatIneligibilityReasons(dualEligibility.slReasons),
+                Home
+              )}
+              {renderProductResult(
+                'HEI',
+                dualEligibility.heiEligible,
+                dualEligibility.heiMaxInvestment,
+                formatIneligibilityReasons(dualEligibility.heiReasons),
+                Percent
+              )}
+            </div>
+
+            {heaCost && (
+              <Card className="shadow-sm">
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">HEI Cost at Full Funding</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <div className="space-y-3">
+                      <div className="flex items-center justify-between text-xs">
+                        <span className="font-semibold uppercase tracking-wider text-muted-foreground">Settle In Year</span>
+                        <span className="font-bold">{settlementYear}</span>
+                      </div>
+                      <Slider
+                        value={[settlementYear]}
+                        onValueChange={(value) => update({ settlementYear: value[0] })}
+                        min={1}
+                        max={HEA_SCHEDULE_YEARS}
+                        step={1}
+                      />
+                    </div>
+                    <div className="space-y-3">
+                      <div className="flex items-center justify-between text-xs">
+                        <span className="font-semibold uppercase tracking-wider text-muted-foreground">Home Appreciation</span>
+                        <span className="font-bold">{formatPercentage(hpaRate)} / yr</span>
+                      </div>
+                      <Slider
+                        value={[hpaRate]}
+                        onValueChange={(value) => update({ hpaRate: value[0] })}
+                        min={-5}
+                        max={10}
+                        step={0.5}
+                      />
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-3 gap-4 text-center">
+                    <div className="rounded-lg border bg-muted/20 p-3">
+                      <p className="text-[10px] font-bold uppercase tracking-wider text-muted-foreground">Payoff (Year {settlementYear})</p>
+                      <p className="text-lg font-bold">{formatCurrency(heaCost.payoff)}</p>
+                    </div>
+                    <div className="rounded-lg border bg-muted/20 p-3">
+                      <p className="text-[10px] font-bold uppercase tracking-wider text-muted-foreground">Effective APR</p>
+                      <p className="text-lg font-bold">{formatPercentage(heaCost.apr)}</p>
+                    </div>
+                    <div className="rounded-lg border bg-muted/20 p-3">
+                      <p className="text-[10px] font-bold uppercase tracking-wider text-muted-foreground">Total Cost</p>
+                      <p className="text-lg font-bold">{formatCurrency(heaCost.totalCost)}</p>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            <EligibilityTracePanel traces={[dualEligibility.heiTrace, dualEligibility.slTrace]} />
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+// Helpers the edge functions share for underwriting a stored submission
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { UnderwritingInputs } from "../../../src/lib/underwriting.ts";
+import { DEFAULT_GUIDELINES, parseProductGuidelines, type ProductGuidelines } from "../../../src/lib/productRules.ts";
+import type { Lien } from "../../../src/lib/liens.ts";
+
+// Published guideline version (built-in defaults if none is published or it fails validation)
+export async function loadPublishedGuidelines(supabase: SupabaseClient): Promise<ProductGuidelines> {
+  const { data } = await supabase
+    .from("product_guidelines")
+    .select("version, rules")
+    .eq("status", "published")
+    .maybeSingle();
+  return (data && parseProductGuidelines(data.version, data.rules)) || DEFAULT_GUIDELINES;
+}
+
+// The submissions columns underwriting reads
+export interface SubmissionUnderwritingRow {
+  home_value: number | null;
+  mortgage_balance: number | null;
+  liens: Lien[] | null;
+  state: string | null;
+  property_type: string | null;
+  ownership_type: string | null;
+  owner_credit_scores: string[] | null;
+  is_credit_score_low: boolean | null;
+  is_employed: boolean | null;
+  has_late_payments: boolean | null;
+}
+
+// Underwriting inputs from a submissions row
+export function getSubmissionInputs(submission: SubmissionUnderwritingRow): UnderwritingInputs {
+  return {
+    homeValue: Number(submission.home_value) || 0,
+    mortgageBalance: Number(submission.mortgage_balance) || 0,
+    liens: submission.liens || [],
+    state: submission.state || "",
+    propertyType: submission.property_type || "",
+    ownershipType: submission.ownership_type || "",
+    creditScores: submission.owner_credit_scores || [],
+    isCreditScoreLow: submission.is_credit_score_low,
+    isEmployed: submission.is_employed,
+    hasLatePayments: submission.has_late_payments,
+  };
+}
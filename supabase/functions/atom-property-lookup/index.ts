@@ -1,8 +1,13 @@
 // StayFrank Supabase Edge Function: atom-property-lookup
 // This function looks up property data from ATTOM API
-// Uses 3 endpoints like EquityAdvance: property profile, AVM, and mortgage history
+// Uses 4 endpoints: property profile, AVM, mortgage/owner detail and sales history
+// Responses are cached per normalized address in property_lookups (see migration 007)
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { normalizeAddressKey } from "../../../src/lib/addressKey.ts";
+import { parseRecordedLiens, type RecordedLien } from "../../../src/lib/recordedLiens.ts";
+import { selectAttomValuation, type PropertyValuation } from "../../../src/lib/valuation.ts";
 
 const corsHeaders = {
     "Access-Control-Allow-Origin": "*",
@@ -14,12 +19,25 @@ interface AtomResponse {
     state: string;
     propertyType: string;
     estimatedValue: number;
-    estimatedMortgageBalance: number;
-    rawPropertyData?: any;
-    rawAvmData?: any;
-    rawMortgageHistory?: any;
+    // Where estimatedValue came from, with the AVM range and confidence when it is an AVM
+    valuation: PropertyValuation;
+    // Open loans from public records, in lien order (original amounts)
+    liens: RecordedLien[];
+    rawPropertyData?: unknown;
+    rawAvmData?: unknown;
+    rawMortgageData?: unknown;
+    rawSalesHistory?: unknown;
+    // Whether the ATTOM data came from the cache, and when it was fetched from ATTOM
+    fromCache: boolean;
+    fetchedAt: string;
 }
 
+// How long a cached lookup is served before ATTOM is asked again
+const DEFAULT_CACHE_TTL_HOURS = 168;
+
+// ATTOM answers "no record" (no AVM, never sold) with a 4xx - only rate limits and server errors are failures
+const isTransientStatus = (status: number) => status === 429 || status >= 500;
+
 serve(async (req) => {
     // Handle CORS preflight
     if (req.method === "OPTIONS") {
@@ -27,7 +45,7 @@ serve(async (req) => {
     }
 
     try {
-        const { address } = await req.json();
+        const { address, forceRefresh } = await req.json();
 
         if (!address) {
             return new Response(
@@ -47,97 +65,184 @@ serve(async (req) => {
             );
         }
 
-        console.log("Looking up property:", address);
+        console.log("Looking up property:", address, forceRefresh ? "(force refresh)" : "");
 
-        const encodedAddress = encodeURIComponent(address);
-        const headers = {
-            "Accept": "application/json",
-            "apikey": attomApiKey,
-        };
+        // Cache is optional - without service role credentials every lookup goes to ATTOM
+        const supabaseUrl = Deno.env.get("SUPABASE_URL");
+        const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+        const cache = supabaseUrl && serviceRoleKey ? createClient(supabaseUrl, serviceRoleKey) : null;
+        const cacheTtlHours = Number(Deno.env.get("PROPERTY_LOOKUP_CACHE_TTL_HOURS")) || DEFAULT_CACHE_TTL_HOURS;
+        const addressKey = normalizeAddressKey(address);
+
+        let propertyData = null;
+        let avmData = null;
+        let mortgageData = null;
+        let salesHistoryData = null;
+        let fetchedAt = new Date().toISOString();
+        let fromCache = false;
 
         // ============================================
-        // STEP 1: Fetch Property Profile (basic data)
+        // STEP 0: Serve a fresh cached lookup
         // ============================================
-        console.log("Fetching property data from Atom...");
-        const propertyUrl = `https://api.gateway.attomdata.com/propertyapi/v1.0.0/property/basicprofile?address=${encodedAddress}`;
-
-        const propertyResponse = await fetch(propertyUrl, { method: "GET", headers });
-
-        if (!propertyResponse.ok) {
-            const errorText = await propertyResponse.text();
-            console.error("ATTOM Property API error:", propertyResponse.status, errorText);
-            return new Response(
-                JSON.stringify({ error: `Failed to lookup property: ${propertyResponse.status}` }),
-                { status: propertyResponse.status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-            );
+        if (cache && !forceRefresh) {
+            const { data: cached, error: cacheError } = await cache
+                .from("property_lookups")
+                .select("property_data, avm_data, mortgage_data, sales_history_data, fetched_at")
+                .eq("address_key", addressKey)
+                .maybeSingle();
+
+            if (cacheError) {
+                console.error("Cache read error:", cacheError);
+            } else if (cached && Date.now() - new Date(cached.fetched_at).getTime() < cacheTtlHours * 60 * 60 * 1000) {
+                propertyData = cached.property_data;
+                avmData = cached.avm_data;
+                mortgageData = cached.mortgage_data;
+                salesHistoryData = cached.sales_history_data;
+                fetchedAt = cached.fetched_at;
+                fromCache = true;
+                console.log("Serving cached lookup from", fetchedAt);
+            }
         }
 
-        const propertyData = await propertyResponse.json();
-        console.log("Property data received");
+        if (!fromCache) {
+            const encodedAddress = encodeURIComponent(address);
+            // Cleared when an optional endpoint fails in transit, is rate limited or errors server-side
+            let isComplete = true;
+            const headers = {
+                "Accept": "application/json",
+                "apikey": attomApiKey,
+            };
+
+            // ============================================
+            // STEP 1: Fetch Property Profile (basic data)
+            // ============================================
+            console.log("Fetching property data from Atom...");
+            const propertyUrl = `https://api.gateway.attomdata.com/propertyapi/v1.0.0/property/basicprofile?address=${encodedAddress}`;
+
+            const propertyResponse = await fetch(propertyUrl, { method: "GET", headers });
+
+            if (!propertyResponse.ok) {
+                const errorText = await propertyResponse.text();
+                console.error("ATTOM Property API error:", propertyResponse.status, errorText);
+                return new Response(
+                    JSON.stringify({ error: `Failed to lookup property: ${propertyResponse.status}` }),
+                    { status: propertyResponse.status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+                );
+            }
 
-        // Extract property from response
-        const property = propertyData?.property?.[0];
+            propertyData = await propertyResponse.json();
+            console.log("Property data received");
 
-        if (!property) {
-            console.log("No property found in response");
-            return new Response(
-                JSON.stringify({ error: "Property not found" }),
-                { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-            );
-        }
+            // Extract property from response
+            const property = propertyData?.property?.[0];
 
-        // ============================================
-        // STEP 2: Fetch AVM Data (property valuation)
-        // ============================================
-        console.log("Fetching AVM data from Atom...");
-        const avmUrl = `https://api.gateway.attomdata.com/propertyapi/v1.0.0/attomavm/detail?address=${encodedAddress}`;
+            if (!property) {
+                console.log("No property found in response");
+                return new Response(
+                    JSON.stringify({ error: "Property not found" }),
+                    { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+                );
+            }
 
-        let avmData = null;
-        let avmValue = 0;
+            // ============================================
+            // STEP 2: Fetch AVM Data (property valuation)
+            // ============================================
+            console.log("Fetching AVM data from Atom...");
+            const avmUrl = `https://api.gateway.attomdata.com/propertyapi/v1.0.0/attomavm/detail?address=${encodedAddress}`;
+
+            try {
+                const avmResponse = await fetch(avmUrl, { method: "GET", headers });
+
+                if (avmResponse.ok) {
+                    avmData = await avmResponse.json();
+                    console.log("AVM data received");
+                } else {
+                    console.log("AVM endpoint returned:", avmResponse.status);
+                    isComplete = isComplete && !isTransientStatus(avmResponse.status);
+                }
+            } catch (avmError) {
+                console.error("AVM fetch error:", avmError);
+                isComplete = false;
+            }
 
-        try {
-            const avmResponse = await fetch(avmUrl, { method: "GET", headers });
+            // ============================================
+            // STEP 3: Fetch Mortgage / Owner Detail (recorded loans)
+            // ============================================
+            console.log("Fetching mortgage and owner detail from Atom...");
+            const mortgageUrl = `https://api.gateway.attomdata.com/propertyapi/v1.0.0/property/detailmortgageowner?address=${encodedAddress}`;
+
+            try {
+                const mortgageResponse = await fetch(mortgageUrl, { method: "GET", headers });
+
+                if (mortgageResponse.ok) {
+                    mortgageData = await mortgageResponse.json();
+                    console.log("Mortgage data received");
+                } else {
+                    console.log("Mortgage endpoint returned:", mortgageResponse.status);
+                    isComplete = isComplete && !isTransientStatus(mortgageResponse.status);
+                }
+            } catch (mortgageError) {
+                console.error("Mortgage fetch error:", mortgageError);
+                isComplete = false;
+            }
 
-            if (avmResponse.ok) {
-                avmData = await avmResponse.json();
-                console.log("AVM data received");
+            // ============================================
+            // STEP 4: Fetch Sales History (closes loans paid off at a sale)
+            // ============================================
+            console.log("Fetching sales history from Atom...");
+            const salesHistoryUrl = `https://api.gateway.attomdata.com/propertyapi/v1.0.0/saleshistory/detail?address=${encodedAddress}`;
+
+            try {
+                const salesHistoryResponse = await fetch(salesHistoryUrl, { method: "GET", headers });
+
+                if (salesHistoryResponse.ok) {
+                    salesHistoryData = await salesHistoryResponse.json();
+                    console.log(`Found ${salesHistoryData?.property?.[0]?.salehistory?.length || 0} sales`);
+                } else {
+                    console.log("Sales history endpoint returned:", salesHistoryResponse.status);
+                    isComplete = isComplete && !isTransientStatus(salesHistoryResponse.status);
+                }
+            } catch (salesHistoryError) {
+                console.error("Sales history fetch error:", salesHistoryError);
+                isComplete = false;
+            }
 
-                // Extract AVM value from response
-                const avmProperty = avmData?.property?.[0];
-                if (avmProperty?.avm?.amount?.value) {
-                    avmValue = avmProperty.avm.amount.value;
-                    console.log("AVM value found:", avmValue);
+            // Cache what ATTOM returned for the next lookup of this address. A "no record" answer
+            // (no AVM, never sold) is cached as empty; a failed call is not, so the next lookup retries it.
+            if (!isComplete) {
+                console.log("Skipping cache write - ATTOM response is incomplete");
+            }
+            if (cache && isComplete) {
+                const { error: cacheWriteError } = await cache
+                    .from("property_lookups")
+                    .upsert({
+                        address_key: addressKey,
+                        address,
+                        property_data: propertyData,
+                        avm_data: avmData,
+                        mortgage_data: mortgageData,
+                        sales_history_data: salesHistoryData,
+                        fetched_at: fetchedAt,
+                    }, { onConflict: "address_key" });
+                if (cacheWriteError) {
+                    console.error("Cache write error:", cacheWriteError);
                 }
-            } else {
-                console.log("AVM endpoint returned:", avmResponse.status);
             }
-        } catch (avmError) {
-            console.error("AVM fetch error:", avmError);
         }
 
-        // ============================================
-        // STEP 3: Fetch Mortgage History (fallback)
-        // ============================================
-        console.log("Fetching Mortgage History from Atom (fallback)...");
-        const mortgageUrl = `https://api.gateway.attomdata.com/propertyapi/v1.0.0/property/basicprofile?address=${encodedAddress}`;
-
-        let mortgageData = null;
-        let mortgageRecords: any[] = [];
-
-        try {
-            const mortgageResponse = await fetch(mortgageUrl, { method: "GET", headers });
-
-            if (mortgageResponse.ok) {
-                mortgageData = await mortgageResponse.json();
-                mortgageRecords = mortgageData?.property || [];
-                console.log(`Found ${mortgageRecords.length} mortgage records`);
-            } else {
-                console.log("Mortgage endpoint returned:", mortgageResponse.status);
+        // Hit / miss metrics (a failed insert never fails the lookup)
+        if (cache) {
+            const { error: metricError } = await cache
+                .from("property_lookup_events")
+                .insert({ address_key: addressKey, result: fromCache ? "hit" : forceRefresh ? "refresh" : "miss" });
+            if (metricError) {
+                console.error("Cache metric error:", metricError);
             }
-        } catch (mortgageError) {
-            console.error("Mortgage fetch error:", mortgageError);
         }
 
+        // Extract records from the responses
+        const property = propertyData.property[0];
+
         // ============================================
         // Parse and combine data from all endpoints
         // ============================================
@@ -167,68 +272,32 @@ serve(async (req) => {
         const propertyType = avmProperty?.summary?.propertyType || property.summary?.propertyType || "Single Family";
 
         // ============================================
-        // Determine Estimated Value (priority order)
+        // Determine Estimated Value
         // ============================================
-        let estimatedValue = 0;
-
-        // Priority 1: AVM value (most accurate current market estimate)
-        if (avmValue > 0) {
-            estimatedValue = avmValue;
-            console.log("Using AVM value:", estimatedValue);
-        }
-        // Priority 2: Assessment market value
-        else if (avmProperty?.assessment?.market?.mktttlvalue) {
-            estimatedValue = avmProperty.assessment.market.mktttlvalue;
-            console.log("Using AVM assessment market value:", estimatedValue);
-        }
-        else if (property.assessment?.market?.mktTtlValue) {
-            estimatedValue = property.assessment.market.mktTtlValue;
-            console.log("Using property assessment market value:", estimatedValue);
-        }
-        // Priority 3: Assessment assessed value
-        else if (property.assessment?.assessed?.assdTtlValue) {
-            estimatedValue = property.assessment.assessed.assdTtlValue;
-            console.log("Using assessed value:", estimatedValue);
-        }
-        // Priority 4: Recent sale price
-        else if (avmProperty?.sale?.amount?.saleAmt) {
-            estimatedValue = avmProperty.sale.amount.saleAmt;
-            console.log("Using sale amount:", estimatedValue);
-        }
+        // AVM first, then assessor market value, assessed value and last sale
+        const valuation = selectAttomValuation(avmData, propertyData);
+        console.log(`Using ${valuation.source} value:`, valuation.value, "confidence:", valuation.confidence);
 
         // ============================================
-        // Determine Mortgage Balance
+        // Determine Open Liens
         // ============================================
-        let estimatedMortgageBalance = 0;
-
-        // Try AVM data first
-        if (avmProperty?.sale?.mortgage?.FirstConcurrent?.amount) {
-            estimatedMortgageBalance = avmProperty.sale.mortgage.FirstConcurrent.amount;
-        }
-        // Try mortgage history
-        else if (mortgageRecords.length > 0) {
-            const latestMortgage = mortgageRecords[0];
-            if (latestMortgage?.mortgage?.amount) {
-                estimatedMortgageBalance = latestMortgage.mortgage.amount;
-            }
-        }
-        // Try property data
-        else if (property.mortgage?.FirstConcurrent?.amount) {
-            estimatedMortgageBalance = property.mortgage.FirstConcurrent.amount;
-        }
-        else if (property.mortgage?.amount) {
-            estimatedMortgageBalance = property.mortgage.amount;
-        }
+        // The profile's own mortgage block is the fallback when the detail endpoint fails
+        const liens = parseRecordedLiens(mortgageData ?? propertyData, salesHistoryData);
+        console.log(`Found ${liens.length} open recorded loans`);
 
         const result: AtomResponse = {
             ownerNames,
             state,
             propertyType,
-            estimatedValue: Math.round(estimatedValue),
-            estimatedMortgageBalance: Math.round(estimatedMortgageBalance),
+            estimatedValue: valuation.value,
+            valuation,
+            liens,
             rawPropertyData: propertyData,
             rawAvmData: avmData,
-            rawMortgageHistory: mortgageData,
+            rawMortgageData: mortgageData,
+            rawSalesHistory: salesHistoryData,
+            fromCache,
+            fetchedAt,
         };
 
         console.log("Returning result:", JSON.stringify(result));
@@ -0,0 +1,102 @@
+// StayFrank Supabase Edge Function: rentcast-property-lookup
+// Looks up a property record and value estimate from RentCast, the fallback property data
+// provider (see src/lib/api/providers.ts). Returns the raw records; the client maps them.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+
+const corsHeaders = {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const RENTCAST_API_URL = "https://api.rentcast.io/v1";
+
+serve(async (req) => {
+    // Handle CORS preflight
+    if (req.method === "OPTIONS") {
+        return new Response(null, { headers: corsHeaders });
+    }
+
+    try {
+        const { address } = await req.json();
+
+        if (!address) {
+            return new Response(
+                JSON.stringify({ error: "Address is required" }),
+                { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+            );
+        }
+
+        const rentCastApiKey = Deno.env.get("RENTCAST_API_KEY");
+
+        if (!rentCastApiKey) {
+            console.error("Missing RENTCAST_API_KEY");
+            return new Response(
+                JSON.stringify({ error: "Server configuration error - missing API key" }),
+                { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+            );
+        }
+
+        console.log("Looking up property on RentCast:", address);
+
+        const encodedAddress = encodeURIComponent(address);
+        const headers = {
+            "Accept": "application/json",
+            "X-Api-Key": rentCastApiKey,
+        };
+
+        // ============================================
+        // STEP 1: Property record (owner, type, state)
+        // ============================================
+        const propertyResponse = await fetch(`${RENTCAST_API_URL}/properties?address=${encodedAddress}`, { method: "GET", headers });
+
+        if (!propertyResponse.ok) {
+            const errorText = await propertyResponse.text();
+            console.error("RentCast property API error:", propertyResponse.status, errorText);
+            return new Response(
+                JSON.stringify({ error: `Failed to lookup property: ${propertyResponse.status}` }),
+                { status: propertyResponse.status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+            );
+        }
+
+        const properties = await propertyResponse.json();
+        const property = Array.isArray(properties) ? properties[0] : null;
+
+        if (!property) {
+            console.log("No property found in response");
+            return new Response(
+                JSON.stringify({ error: "Property not found" }),
+                { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+            );
+        }
+
+        // ============================================
+        // STEP 2: Value estimate (optional)
+        // ============================================
+        let valuation = null;
+        try {
+            const valuationResponse = await fetch(`${RENTCAST_API_URL}/avm/value?address=${encodedAddress}`, { method: "GET", headers });
+
+            if (valuationResponse.ok) {
+                valuation = await valuationResponse.json();
+                console.log("Value estimate received");
+            } else {
+                console.log("Value estimate endpoint returned:", valuationResponse.status);
+            }
+        } catch (valuationError) {
+            console.error("Value estimate fetch error:", valuationError);
+        }
+
+        return new Response(
+            JSON.stringify({ property, valuation, fetchedAt: new Date().toISOString() }),
+            { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+
+    } catch (error) {
+        console.error("Error in rentcast-property-lookup:", error);
+        return new Response(
+            JSON.stringify({ error: "Internal server error", details: error.message }),
+            { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+    }
+});
@@ -0,0 +1,191 @@
+// StayFrank Supabase Edge Function: reunderwrite-offers
+// Scheduled job (pg_cron, see migration 006) that refreshes expired offers on open submissions.
+// Each one gets a fresh property lookup and eligibility run against the published guidelines,
+// stored as a new offer revision. Material changes are flagged to the submitting officer.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getUnderwritingStatus, underwrite } from "../../../src/lib/underwriting.ts";
+import {
+  OFFER_VALIDITY_DAYS,
+  compareOffers,
+  getOfferExpiration,
+  getReunderwriteRetryAt,
+  hasMaterialChange,
+  type OfferSnapshot,
+} from "../../../src/lib/offerRevisions.ts";
+import { getSubmissionInputs, loadPublishedGuidelines } from "../_shared/underwriting.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Submissions refreshed per run - the rest are picked up by the next one
+const BATCH_SIZE = 50;
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+    if (!supabaseUrl || !serviceRoleKey) {
+      console.error("Missing Supabase configuration");
+      return jsonResponse({ error: "Server configuration error" }, 500);
+    }
+
+    // Only the scheduler (service role) may run the job
+    if (req.headers.get("Authorization") !== `Bearer ${serviceRoleKey}`) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const validityDays = Number(Deno.env.get("OFFER_VALIDITY_DAYS")) || OFFER_VALIDITY_DAYS;
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+    const guidelines = await loadPublishedGuidelines(supabase);
+    const now = new Date();
+
+    // Open submissions whose offer has expired, oldest first. Rejected ones never had an offer,
+    // and ones that failed recently wait out their backoff.
+    const { data: submissions, error: queryError } = await supabase
+      .from("submissions")
+      .select("*")
+      .is("closed_at", null)
+      .in("underwriting_status", ["verified", "flagged"])
+      .lte("offer_expires_at", now.toISOString())
+      .or(`reunderwrite_retry_at.is.null,reunderwrite_retry_at.lte.${now.toISOString()}`)
+      .order("offer_expires_at", { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (queryError) {
+      console.error("Error loading expired offers:", queryError);
+      return jsonResponse({ error: "Failed to load submissions", details: queryError.message }, 500);
+    }
+
+    const summary = { processed: 0, revised: 0, material: 0, rejected: 0, failed: 0 };
+
+    // One at a time to stay well inside ATTOM's rate limits
+    for (const submission of submissions || []) {
+      summary.processed++;
+      try {
+        // Fresh AVM (bypassing the lookup cache) from the same lookup the wizard uses.
+        // The lien stack stays as the officer entered it.
+        const lookupResponse = await fetch(`${supabaseUrl}/functions/v1/atom-property-lookup`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "apikey": serviceRoleKey,
+            "Authorization": `Bearer ${serviceRoleKey}`,
+          },
+          body: JSON.stringify({ address: submission.property_address, forceRefresh: true }),
+        });
+        if (!lookupResponse.ok) {
+          throw new Error(`Property lookup failed: ${lookupResponse.status}`);
+        }
+        const lookup = await lookupResponse.json();
+
+        const inputs = getSubmissionInputs(submission);
+        if (lookup.estimatedValue > 0) {
+          inputs.homeValue = lookup.estimatedValue;
+        }
+        const underwritten = underwrite(inputs, guidelines);
+        // The stored offer is the server's own, so there is no quote to mismatch
+        const status = getUnderwritingStatus(underwritten, []);
+
+        const previous: OfferSnapshot = {
+          homeValue: Number(submission.home_value) || 0,
+          slEligible: submission.sl_eligible,
+          slOfferAmount: submission.sl_offer_amount,
+          heiEligible: submission.hei_eligible,
+          heiMaxInvestment: submission.hei_max_investment,
+          guidelineVersion: submission.guideline_version,
+        };
+        const changes = compareOffers(previous, { ...underwritten, homeValue: inputs.homeValue });
+        const isMaterial = hasMaterialChange(changes);
+        const revision = (submission.current_revision || 1) + 1;
+
+        // Upserted so a run that saved the revision but failed to update the submission can redo it
+        const { error: revisionError } = await supabase.from("offer_revisions").upsert({
+          submission_id: submission.id,
+          revision,
+          source: "reunderwrite",
+          home_value: inputs.homeValue,
+          mortgage_balance: inputs.mortgageBalance,
+          sl_eligible: underwritten.slEligible,
+          sl_offer_amount: underwritten.slOfferAmount,
+          sl_ineligibility_reasons: underwritten.slReasons,
+          hei_eligible: underwritten.heiEligible,
+          hei_max_investment: underwritten.heiMaxInvestment,
+          hei_ineligibility_reasons: underwritten.heiReasons,
+          guideline_version: underwritten.guidelineVersion,
+          changes,
+          is_material_change: isMaterial,
+        }, { onConflict: "submission_id,revision" });
+        if (revisionError) throw revisionError;
+
+        // A rejected offer keeps its expired date, so it drops out of the next runs
+        const { error: updateError } = await supabase
+          .from("submissions")
+          .update({
+            home_value: inputs.homeValue,
+            sl_eligible: underwritten.slEligible,
+            sl_offer_amount: underwritten.slOfferAmount,
+            sl_ineligibility_reasons: underwritten.slReasons,
+            hei_eligible: underwritten.heiEligible,
+            hei_max_investment: underwritten.heiMaxInvestment,
+            hei_ineligibility_reasons: underwritten.heiReasons,
+            guideline_version: underwritten.guidelineVersion,
+            underwriting_status: status,
+            underwritten_at: now.toISOString(),
+            ...(status !== "rejected" && { offer_expires_at: getOfferExpiration(now, validityDays).toISOString() }),
+            current_revision: revision,
+            reunderwrite_failures: 0,
+            reunderwrite_error: null,
+            reunderwrite_retry_at: null,
+          })
+          .eq("id", submission.id);
+        if (updateError) throw updateError;
+
+        summary.revised++;
+        if (status === "rejected") {
+          summary.rejected++;
+        }
+        if (isMaterial) {
+          summary.material++;
+          console.log(`Submission ${submission.id} offer changed materially:`, JSON.stringify(changes));
+        }
+      } catch (error) {
+        summary.failed++;
+        console.error(`Error re-underwriting submission ${submission.id}:`, error);
+
+        // Record the failure and back off so broken rows don't crowd out the rest of the queue
+        const failures = (submission.reunderwrite_failures || 0) + 1;
+        const { error: failureError } = await supabase
+          .from("submissions")
+          .update({
+            reunderwrite_failures: failures,
+            reunderwrite_error: error instanceof Error ? error.message : String(error),
+            reunderwrite_retry_at: getReunderwriteRetryAt(now, failures).toISOString(),
+          })
+          .eq("id", submission.id);
+        if (failureError) {
+          console.error(`Error recording failure for submission ${submission.id}:`, failureError);
+        }
+      }
+    }
+
+    console.log("Re-underwriting complete:", JSON.stringify(summary));
+    return jsonResponse(summary, 200);
+
+  } catch (error) {
+    console.error("Error in reunderwrite-offers:", error);
+    return jsonResponse({ error: "Internal server error", details: error.message }, 500);
+  }
+});
@@ -1,28 +1,51 @@
 // StayFrank Supabase Edge Function: submit-deal
-// This function creates a deal in EquityAdvance and returns the tracking link
+// This function re-underwrites the submission, creates a deal in EquityAdvance and returns the tracking link.
+// The offer is recomputed from the submission's raw inputs with the same rules the wizard uses -
+// the amounts the browser quoted are only compared against it, never trusted.
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  findOfferMismatches,
+  getSubmitAction,
+  getUnderwritingStatus,
+  underwrite,
+  type OfferMismatch,
+  type QuotedOffer,
+  type UnderwritingStatus,
+} from "../../../src/lib/underwriting.ts";
+import { OFFER_VALIDITY_DAYS, getOfferExpiration } from "../../../src/lib/offerRevisions.ts";
+import { getSubmissionInputs, loadPublishedGuidelines } from "../_shared/underwriting.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+// The offer the user was shown - compared against the recomputed offer, never persisted as-is
 interface SubmitDealRequest {
   submission_id: string;
-  property_address: string;
-  home_value: number;
-  mortgage_balance: number;
-  owner_names: string[];
-  property_type: string;
-  state: string;
   sl_eligible: boolean;
   sl_offer_amount: number | null;
   hei_eligible: boolean;
   hei_max_investment: number | null;
 }
 
+// The offer sent to EquityAdvance, as returned to the caller
+interface SubmittedUnderwriting {
+  status: UnderwritingStatus;
+  mismatches: OfferMismatch[];
+  sl_eligible: boolean;
+  sl_offer_amount: number | null;
+  hei_eligible: boolean;
+  hei_max_investment: number | null;
+  guideline_version: number;
+  offer_expires_at: string | null;
+}
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+
 serve(async (req) => {
   // Handle CORS preflight
   if (req.method === "OPTIONS") {
@@ -31,17 +54,136 @@ serve(async (req) => {
 
   try {
     const body: SubmitDealRequest = await req.json();
-    
+
     // Get environment variables
     const equityAdvanceApiUrl = Deno.env.get("EQUITYADVANCE_API_URL");
     const equityAdvancePartnerKey = Deno.env.get("EQUITYADVANCE_PARTNER_KEY");
-    
-    if (!equityAdvanceApiUrl || !equityAdvancePartnerKey) {
-      console.error("Missing EquityAdvance configuration");
-      return new Response(
-        JSON.stringify({ error: "Server configuration error" }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+    if (!equityAdvanceApiUrl || !equityAdvancePartnerKey || !supabaseUrl || !serviceRoleKey) {
+      console.error("Missing EquityAdvance or Supabase configuration");
+      return jsonResponse({ error: "Server configuration error" }, 500);
+    }
+
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+    // Only the owner of the submission can submit it
+    const token = (req.headers.get("Authorization") || "").replace("Bearer ", "");
+    const { data: { user } } = await supabase.auth.getUser(token);
+    if (!user) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const { data: submission, error: submissionError } = await supabase
+      .from("submissions")
+      .select("*")
+      .eq("id", body.submission_id)
+      .eq("user_id", user.id)
+      .single();
+
+    if (submissionError || !submission) {
+      return jsonResponse({ error: "Submission not found" }, 404);
+    }
+
+    // A submission is underwritten once and sent to EquityAdvance once. If the partner call failed,
+    // a retry resends the stored offer; later changes go through re-underwriting.
+    const action = getSubmitAction(submission.underwriting_status, submission.equityadvance_deal_id);
+    if (action === "submitted") {
+      return jsonResponse({ error: "Submission has already been submitted", underwriting_status: submission.underwriting_status }, 409);
+    }
+
+    let underwriting: SubmittedUnderwriting;
+    if (action === "underwrite") {
+      // Underwrite against the published guidelines
+      const guidelines = await loadPublishedGuidelines(supabase);
+      const underwritten = underwrite(getSubmissionInputs(submission), guidelines);
+
+      const quoted: QuotedOffer = {
+        slEligible: body.sl_eligible,
+        slOfferAmount: body.sl_offer_amount,
+        heiEligible: body.hei_eligible,
+        heiMaxInvestment: body.hei_max_investment,
+      };
+      const mismatches = findOfferMismatches(quoted, underwritten);
+      const status = getUnderwritingStatus(underwritten, mismatches);
+      if (mismatches.length > 0) {
+        console.warn(`Submission ${submission.id} quote differs from underwriting:`, JSON.stringify(mismatches));
+      }
+
+      // The recomputed offer is what gets persisted, whatever the browser sent
+      const underwrittenAt = new Date();
+      const validityDays = Number(Deno.env.get("OFFER_VALIDITY_DAYS")) || OFFER_VALIDITY_DAYS;
+      const offerExpiresAt = getOfferExpiration(underwrittenAt, validityDays).toISOString();
+      const revision = (submission.current_revision || 0) + 1;
+      const { error: updateError } = await supabase
+        .from("submissions")
+        .update({
+          sl_eligible: underwritten.slEligible,
+          sl_offer_amount: underwritten.slOfferAmount,
+          sl_ineligibility_reasons: underwritten.slReasons,
+          hei_eligible: underwritten.heiEligible,
+          hei_max_investment: underwritten.heiMaxInvestment,
+          hei_ineligibility_reasons: underwritten.heiReasons,
+          guideline_version: underwritten.guidelineVersion,
+          underwriting_status: status,
+          underwriting_mismatches: mismatches.length > 0 ? mismatches : null,
+          underwritten_at: underwrittenAt.toISOString(),
+          offer_expires_at: offerExpiresAt,
+          current_revision: revision,
+        })
+        .eq("id", submission.id);
+
+      if (updateError) {
+        console.error("Error saving underwriting:", updateError);
+        return jsonResponse({ error: "Failed to save underwriting", details: updateError.message }, 500);
+      }
+
+      // Start the offer's revision history (reunderwrite-offers adds to it once the offer expires)
+      const { error: revisionError } = await supabase.from("offer_revisions").insert({
+        submission_id: submission.id,
+        revision,
+        source: "submission",
+        home_value: submission.home_value,
+        mortgage_balance: submission.mortgage_balance,
+        sl_eligible: underwritten.slEligible,
+        sl_offer_amount: underwritten.slOfferAmount,
+        sl_ineligibility_reasons: underwritten.slReasons,
+        hei_eligible: underwritten.heiEligible,
+        hei_max_investment: underwritten.heiMaxInvestment,
+        hei_ineligibility_reasons: underwritten.heiReasons,
+        guideline_version: underwritten.guidelineVersion,
+      });
+      if (revisionError) {
+        console.error("Error saving offer revision:", revisionError);
+      }
+
+      underwriting = {
+        status,
+        mismatches,
+        sl_eligible: underwritten.slEligible,
+        sl_offer_amount: underwritten.slOfferAmount,
+        hei_eligible: underwritten.heiEligible,
+        hei_max_investment: underwritten.heiMaxInvestment,
+        guideline_version: underwritten.guidelineVersion,
+        offer_expires_at: offerExpiresAt,
+      };
+    } else {
+      // Already underwritten - the stored offer is the one to (re)send
+      underwriting = {
+        status: submission.underwriting_status,
+        mismatches: submission.underwriting_mismatches || [],
+        sl_eligible: submission.sl_eligible,
+        sl_offer_amount: submission.sl_offer_amount,
+        hei_eligible: submission.hei_eligible,
+        hei_max_investment: submission.hei_max_investment,
+        guideline_version: submission.guideline_version,
+        offer_expires_at: submission.offer_expires_at,
+      };
+    }
+
+    if (underwriting.status === "rejected") {
+      return jsonResponse({ error: "Submission does not qualify for either product", underwriting }, 422);
     }
 
     // Call EquityAdvance to create the deal
@@ -52,46 +194,50 @@ serve(async (req) => {
         "X-Partner-Key": equityAdvancePartnerKey,
       },
       body: JSON.stringify({
-        property_address: body.property_address,
-        home_value: body.home_value,
-        mortgage_balance: body.mortgage_balance,
-        owner_names: body.owner_names,
+        property_address: submission.property_address,
+        home_value: submission.home_value,
+        mortgage_balance: submission.mortgage_balance,
+        owner_names: submission.owner_names || [],
         // HEI max investment is what gets stored as max_investment in EquityAdvance
-        max_investment: body.hei_max_investment || 0,
+        max_investment: underwriting.hei_max_investment || 0,
         // Additional context for the deal
-        sl_eligible: body.sl_eligible,
-        sl_offer_amount: body.sl_offer_amount,
-        hei_eligible: body.hei_eligible,
+        sl_eligible: underwriting.sl_eligible,
+        sl_offer_amount: underwriting.sl_offer_amount,
+        hei_eligible: underwriting.hei_eligible,
         source: "stayfrank_portal",
-        stayfrank_submission_id: body.submission_id,
+        stayfrank_submission_id: submission.id,
       }),
     });
 
     if (!response.ok) {
       const errorText = await response.text();
       console.error("EquityAdvance API error:", errorText);
-      return new Response(
-        JSON.stringify({ error: "Failed to create partner deal", details: errorText }),
-        { status: response.status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+      return jsonResponse({ error: "Failed to create partner deal", details: errorText, underwriting }, response.status);
     }
 
     const result = await response.json();
 
-    // Return the deal ID and tracking link
-    return new Response(
-      JSON.stringify({
-        deal_id: result.deal_id,
-        tracking_link: result.tracking_link,
-      }),
-      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
+    // Recording the deal ID marks the submission as sent - retries after this point get a 409
+    const { error: dealError } = await supabase
+      .from("submissions")
+      .update({
+        equityadvance_deal_id: result.deal_id,
+        everflow_tracking_link: result.tracking_link,
+      })
+      .eq("id", submission.id);
+    if (dealError) {
+      console.error("Error saving partner deal:", dealError);
+    }
+
+    // Return the deal ID, tracking link and the offer that was sent
+    return jsonResponse({
+      deal_id: result.deal_id,
+      tracking_link: result.tracking_link,
+      underwriting,
+    }, 200);
 
   } catch (error) {
     console.error("Error in submit-deal:", error);
-    return new Response(
-      JSON.stringify({ error: "Internal server error", details: error.message }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
+    return jsonResponse({ error: "Internal server error", details: error.message }, 500);
   }
 });
@@ -0,0 +1,120 @@
+-- =====================================================
+-- PRODUCT GUIDELINES TABLE MIGRATION
+-- =====================================================
+-- Run this SQL in your Supabase project's SQL Editor
+-- This adds versioned, admin-editable underwriting
+-- guidelines (HEI / Sale-Leaseback rule sets)
+-- =====================================================
+
+-- Create product_guidelines table
+-- rules holds one rule set per product, keyed by product id ('hei', 'sl')
+CREATE TABLE IF NOT EXISTS product_guidelines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  version INTEGER NOT NULL UNIQUE,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'published', 'archived')),
+  rules JSONB NOT NULL,
+  notes TEXT,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  published_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Only one version can be live at a time
+CREATE UNIQUE INDEX IF NOT EXISTS product_guidelines_single_published
+  ON product_guidelines (status)
+  WHERE status = 'published';
+
+-- Add updated_at trigger
+CREATE TRIGGER update_product_guidelines_updated_at
+  BEFORE UPDATE ON product_guidelines
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Record which guideline version each submission was underwritten against
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS guideline_version INTEGER;
+
+-- Enable RLS
+ALTER TABLE product_guidelines ENABLE ROW LEVEL SECURITY;
+
+-- Anyone authenticated can read the published version (needed for wizard)
+CREATE POLICY "Anyone can view published product guidelines"
+  ON product_guidelines FOR SELECT
+  TO authenticated
+  USING (status = 'published');
+
+-- Admins can view all versions (drafts and archived)
+CREATE POLICY "Admins can view all product guidelines"
+  ON product_guidelines FOR SELECT
+  USING (has_role(auth.uid(), 'admin'));
+
+-- Admins can create drafts
+CREATE POLICY "Admins can insert product guidelines"
+  ON product_guidelines FOR INSERT
+  WITH CHECK (has_role(auth.uid(), 'admin'));
+
+-- Admins can edit drafts (published and archived versions are immutable;
+-- publishing goes through publish_product_guidelines below)
+CREATE POLICY "Admins can update product guidelines"
+  ON product_guidelines FOR UPDATE
+  USING (has_role(auth.uid(), 'admin') AND status = 'draft')
+  WITH CHECK (has_role(auth.uid(), 'admin') AND status = 'draft');
+
+-- Admins can delete drafts
+CREATE POLICY "Admins can delete product guidelines"
+  ON product_guidelines FOR DELETE
+  USING (has_role(auth.uid(), 'admin') AND status = 'draft');
+
+-- Publish a draft atomically: archive the current version, promote the draft
+CREATE OR REPLACE FUNCTION publish_product_guidelines(guideline_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can publish product guidelines';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM product_guidelines WHERE id = guideline_id AND status = 'draft'
+  ) THEN
+    RAISE EXCEPTION 'Only draft guidelines can be published';
+  END IF;
+
+  UPDATE product_guidelines SET status = 'archived' WHERE status = 'published';
+
+  UPDATE product_guidelines
+  SET status = 'published', published_at = now()
+  WHERE id = guideline_id;
+END;
+$$;
+
+-- Seed version 1 (matching current hardcoded rule sets)
+INSERT INTO product_guidelines (version, status, rules, notes, published_at) VALUES
+  (1, 'published', '{
+    "hei": {
+      "id": "hei",
+      "name": "HEI",
+      "eligibleStates": ["AZ", "CA", "FL", "HI", "ID", "IN", "KY", "MI", "MO", "MT", "NV", "NH", "NJ", "NM", "NC", "OH", "OR", "PA", "SC", "TN", "UT", "VA", "DC", "WI", "WY"],
+      "ineligiblePropertyTypes": ["Manufactured", "Apartment", "Land"],
+      "ineligibleOwnershipTypes": ["LLC", "Corporation", "Partnership"],
+      "minHomeValue": 175000,
+      "maxHomeValue": 3000000,
+      "maxLTV": 80,
+      "minCashAmount": 15000,
+      "cashFormula": { "type": "equity_share", "maxSharePercentage": 0.499, "exchangeRate": 2.0, "maxAmount": 500000 }
+    },
+    "sl": {
+      "id": "sl",
+      "name": "Sale-Leaseback",
+      "eligibleStates": ["AZ", "NV", "CA", "CO", "TX", "GA", "FL", "TN", "OH", "IN", "NC"],
+      "eligiblePropertyTypes": ["Single Family"],
+      "ineligibleOwnershipTypes": ["LLC", "Corporation", "Partnership"],
+      "minHomeValue": 200000,
+      "maxHomeValue": 1500000,
+      "maxLTV": 65,
+      "minCashAmount": 0,
+      "cashFormula": { "type": "percent_of_value", "percentage": 0.70 }
+    }
+  }'::jsonb, 'Initial guidelines', now())
+ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,25 @@
+-- =====================================================
+-- INELIGIBILITY REASON CODES MIGRATION
+-- =====================================================
+-- Run this SQL in your Supabase project's SQL Editor
+-- This stores ineligibility reasons as structured codes
+-- (e.g. {"code": "LTV_TOO_HIGH", "product": "hei",
+-- "limit": 80, "actual": 84.2}) instead of display text
+-- =====================================================
+
+-- Convert the reason columns to JSONB arrays.
+-- Existing sentences are kept as JSON strings; the app formats
+-- both legacy strings and reason objects for display.
+ALTER TABLE submissions
+  ALTER COLUMN sl_ineligibility_reasons TYPE JSONB
+  USING to_jsonb(sl_ineligibility_reasons);
+
+ALTER TABLE submissions
+  ALTER COLUMN hei_ineligibility_reasons TYPE JSONB
+  USING to_jsonb(hei_ineligibility_reasons);
+
+-- Example: count declines by reason code
+-- SELECT reason->>'code' AS code, COUNT(*)
+-- FROM submissions, jsonb_array_elements(hei_ineligibility_reasons) AS reason
+-- WHERE jsonb_typeof(reason) = 'object'
+-- GROUP BY 1 ORDER BY 2 DESC;
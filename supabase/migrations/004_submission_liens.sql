@@ -0,0 +1,11 @@
+-- =====================================================
+-- SUBMISSION LIEN STACK MIGRATION
+-- =====================================================
+-- Run this SQL in your Supabase project's SQL Editor
+-- This stores every lien on the property (first and
+-- second mortgages, HELOCs, tax liens, judgments)
+-- =====================================================
+
+-- Array of { id, type, balance, position, payoffAtClosing }
+-- mortgage_balance keeps holding the total of all liens
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS liens JSONB DEFAULT '[]'::jsonb;
@@ -0,0 +1,79 @@
+-- =====================================================
+-- SERVER-SIDE UNDERWRITING MIGRATION
+-- =====================================================
+-- Run this SQL in your Supabase project's SQL Editor
+-- The submit-deal edge function recomputes every offer
+-- from the submission's raw inputs and is the authority
+-- on the persisted offer amounts
+-- =====================================================
+
+-- Raw inputs the offer is recomputed from (the rest already live on submissions)
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS ownership_type TEXT;
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS is_credit_score_low BOOLEAN;
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS is_employed BOOLEAN;
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS has_late_payments BOOLEAN;
+
+-- pending  = offer columns hold the browser's quote, not yet verified
+-- verified = recomputed offer matches the quote
+-- flagged  = recomputed offer differs; underwriting_mismatches has the quoted values
+-- rejected = neither product qualifies on recompute; not sent to EquityAdvance
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS underwriting_status TEXT NOT NULL DEFAULT 'pending'
+  CHECK (underwriting_status IN ('pending', 'verified', 'flagged', 'rejected'));
+-- Array of { field, quoted, underwritten }
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS underwriting_mismatches JSONB;
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS underwritten_at TIMESTAMPTZ;
+
+-- Only the service role (submit-deal) can set the underwriting result.
+-- Users can still insert their quote, but it always starts out pending, and
+-- an underwritten offer (and the inputs behind it) can't be edited from
+-- the browser afterwards.
+CREATE OR REPLACE FUNCTION protect_submission_underwriting()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.underwriting_status := 'pending';
+    NEW.underwriting_mismatches := NULL;
+    NEW.underwritten_at := NULL;
+  ELSE
+    NEW.underwriting_status := OLD.underwriting_status;
+    NEW.underwriting_mismatches := OLD.underwriting_mismatches;
+    NEW.underwritten_at := OLD.underwritten_at;
+    IF OLD.underwriting_status <> 'pending' THEN
+      NEW.sl_eligible := OLD.sl_eligible;
+      NEW.sl_offer_amount := OLD.sl_offer_amount;
+      NEW.sl_ineligibility_reasons := OLD.sl_ineligibility_reasons;
+      NEW.hei_eligible := OLD.hei_eligible;
+      NEW.hei_max_investment := OLD.hei_max_investment;
+      NEW.hei_ineligibility_reasons := OLD.hei_ineligibility_reasons;
+      NEW.guideline_version := OLD.guideline_version;
+      -- The inputs it was underwritten from are frozen too (re-underwriting recomputes from them)
+      NEW.home_value := OLD.home_value;
+      NEW.mortgage_balance := OLD.mortgage_balance;
+      NEW.liens := OLD.liens;
+      NEW.state := OLD.state;
+      NEW.property_type := OLD.property_type;
+      NEW.ownership_type := OLD.ownership_type;
+      NEW.owner_credit_scores := OLD.owner_credit_scores;
+      NEW.is_credit_score_low := OLD.is_credit_score_low;
+      NEW.is_employed := OLD.is_employed;
+      NEW.has_late_payments := OLD.has_late_payments;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER protect_submissions_underwriting
+  BEFORE INSERT OR UPDATE ON submissions
+  FOR EACH ROW EXECUTE FUNCTION protect_submission_underwriting();
+
+-- Example: quotes that didn't survive server-side underwriting
+-- SELECT id, property_address, underwriting_mismatches
+-- FROM submissions
+-- WHERE underwriting_status = 'flagged'
+-- ORDER BY underwritten_at DESC;
@@ -0,0 +1,163 @@
+-- =====================================================
+-- OFFER EXPIRATION & REVISIONS MIGRATION
+-- =====================================================
+-- Run this SQL in your Supabase project's SQL Editor
+-- Offers expire after a fixed window. The reunderwrite-offers
+-- edge function re-runs the property lookup and eligibility
+-- for expired open offers and stores each result as a revision
+-- =====================================================
+
+-- When the current offer stops being valid (set by submit-deal and reunderwrite-offers)
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS offer_expires_at TIMESTAMPTZ;
+-- Latest entry in offer_revisions
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS current_revision INTEGER;
+-- Set once the deal funds or is withdrawn; closed submissions are no longer re-underwritten
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS closed_at TIMESTAMPTZ;
+-- Consecutive re-underwriting failures, the last error and when to try again (cleared on success)
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS reunderwrite_failures INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS reunderwrite_error TEXT;
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS reunderwrite_retry_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS submissions_open_offer_expiry
+  ON submissions (offer_expires_at)
+  WHERE closed_at IS NULL;
+
+-- Create offer_revisions table
+-- Revision 1 is the offer at submission; each re-underwrite adds the next one
+CREATE TABLE IF NOT EXISTS offer_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  submission_id UUID NOT NULL REFERENCES submissions(id) ON DELETE CASCADE,
+  revision INTEGER NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('submission', 'reunderwrite')),
+  home_value NUMERIC,
+  mortgage_balance NUMERIC,
+  sl_eligible BOOLEAN NOT NULL DEFAULT false,
+  sl_offer_amount NUMERIC,
+  sl_ineligibility_reasons JSONB,
+  hei_eligible BOOLEAN NOT NULL DEFAULT false,
+  hei_max_investment NUMERIC,
+  hei_ineligibility_reasons JSONB,
+  guideline_version INTEGER,
+  -- Array of { field, previous, current, isMaterial } against the previous revision
+  changes JSONB,
+  is_material_change BOOLEAN NOT NULL DEFAULT false,
+  -- Set when the submitting officer dismisses the change flag
+  acknowledged_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (submission_id, revision)
+);
+
+-- Enable RLS
+ALTER TABLE offer_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Users can view revisions of their own submissions
+CREATE POLICY "Users can view own offer revisions"
+  ON offer_revisions FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM submissions
+      WHERE submissions.id = offer_revisions.submission_id
+      AND submissions.user_id = auth.uid()
+    )
+  );
+
+-- Users can acknowledge changes to their own offers
+CREATE POLICY "Users can acknowledge own offer revisions"
+  ON offer_revisions FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM submissions
+      WHERE submissions.id = offer_revisions.submission_id
+      AND submissions.user_id = auth.uid()
+    )
+  );
+
+-- Revisions are an audit record - acknowledged_at is the only column users may change
+REVOKE UPDATE ON offer_revisions FROM anon, authenticated;
+GRANT UPDATE (acknowledged_at) ON offer_revisions TO authenticated;
+
+-- Managers can view their officers' revisions
+CREATE POLICY "Managers can view officer offer revisions"
+  ON offer_revisions FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM submissions
+      JOIN profiles ON profiles.id = submissions.user_id
+      WHERE submissions.id = offer_revisions.submission_id
+      AND profiles.parent_id = auth.uid()
+    )
+  );
+
+-- Admins can view all revisions
+CREATE POLICY "Admins can view all offer revisions"
+  ON offer_revisions FOR SELECT
+  USING (has_role(auth.uid(), 'admin'));
+
+-- Offer expiry, revision and re-underwriting failures are part of the underwriting result, so only the service role sets them
+CREATE OR REPLACE FUNCTION protect_submission_underwriting()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.underwriting_status := 'pending';
+    NEW.underwriting_mismatches := NULL;
+    NEW.underwritten_at := NULL;
+    NEW.offer_expires_at := NULL;
+    NEW.current_revision := NULL;
+    NEW.reunderwrite_failures := 0;
+    NEW.reunderwrite_error := NULL;
+    NEW.reunderwrite_retry_at := NULL;
+  ELSE
+    NEW.underwriting_status := OLD.underwriting_status;
+    NEW.underwriting_mismatches := OLD.underwriting_mismatches;
+    NEW.underwritten_at := OLD.underwritten_at;
+    NEW.offer_expires_at := OLD.offer_expires_at;
+    NEW.current_revision := OLD.current_revision;
+    NEW.reunderwrite_failures := OLD.reunderwrite_failures;
+    NEW.reunderwrite_error := OLD.reunderwrite_error;
+    NEW.reunderwrite_retry_at := OLD.reunderwrite_retry_at;
+    IF OLD.underwriting_status <> 'pending' THEN
+      NEW.sl_eligible := OLD.sl_eligible;
+      NEW.sl_offer_amount := OLD.sl_offer_amount;
+      NEW.sl_ineligibility_reasons := OLD.sl_ineligibility_reasons;
+      NEW.hei_eligible := OLD.hei_eligible;
+      NEW.hei_max_investment := OLD.hei_max_investment;
+      NEW.hei_ineligibility_reasons := OLD.hei_ineligibility_reasons;
+      NEW.guideline_version := OLD.guideline_version;
+      -- The inputs it was underwritten from are frozen too (re-underwriting recomputes from them)
+      NEW.home_value := OLD.home_value;
+      NEW.mortgage_balance := OLD.mortgage_balance;
+      NEW.liens := OLD.liens;
+      NEW.state := OLD.state;
+      NEW.property_type := OLD.property_type;
+      NEW.ownership_type := OLD.ownership_type;
+      NEW.owner_credit_scores := OLD.owner_credit_scores;
+      NEW.is_credit_score_low := OLD.is_credit_score_low;
+      NEW.is_employed := OLD.is_employed;
+      NEW.has_late_payments := OLD.has_late_payments;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Run the re-underwriting job daily (requires the pg_cron and pg_net extensions).
+-- Replace <project-ref> and <service-role-key> before running.
+-- SELECT cron.schedule(
+--   'reunderwrite-offers',
+--   '0 7 * * *',
+--   $$
+--   SELECT net.http_post(
+--     url := 'https://<project-ref>.supabase.co/functions/v1/reunderwrite-offers',
+--     headers := jsonb_build_object(
+--       'Authorization', 'Bearer <service-role-key>',
+--       'Content-Type', 'application/json'
+--     ),
+--     body := '{}'::jsonb
+--   );
+--   $$
+-- );
@@ -0,0 +1,61 @@
+-- =====================================================
+-- PROPERTY LOOKUP CACHE MIGRATION
+-- =====================================================
+-- Run this SQL in your Supabase project's SQL Editor
+-- Caches ATTOM responses per address so re-checking a
+-- property doesn't pay for the same lookups again.
+-- The TTL is set on the atom-property-lookup function
+-- (PROPERTY_LOOKUP_CACHE_TTL_HOURS, default 168 = 7 days)
+-- =====================================================
+
+-- Create property_lookups table
+-- One row per normalized address (see src/lib/addressKey.ts), raw ATTOM payloads as returned
+CREATE TABLE IF NOT EXISTS property_lookups (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  address_key TEXT NOT NULL UNIQUE,
+  -- Address as last entered, for reading the table
+  address TEXT NOT NULL,
+  property_data JSONB,
+  avm_data JSONB,
+  mortgage_data JSONB,
+  fetched_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Add updated_at trigger
+CREATE TRIGGER update_property_lookups_updated_at
+  BEFORE UPDATE ON property_lookups
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- One row per lookup request
+-- hit     = served from the cache
+-- miss    = no fresh entry, fetched from ATTOM
+-- refresh = officer forced a new fetch
+CREATE TABLE IF NOT EXISTS property_lookup_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  address_key TEXT NOT NULL,
+  result TEXT NOT NULL CHECK (result IN ('hit', 'miss', 'refresh')),
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS property_lookup_events_created_at
+  ON property_lookup_events (created_at);
+
+-- Enable RLS
+-- Only the edge function (service role) reads and writes the cache
+ALTER TABLE property_lookups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE property_lookup_events ENABLE ROW LEVEL SECURITY;
+
+-- Admins can view cache metrics
+CREATE POLICY "Admins can view property lookup events"
+  ON property_lookup_events FOR SELECT
+  USING (has_role(auth.uid(), 'admin'));
+
+-- Example: daily hit rate
+-- SELECT date_trunc('day', created_at) AS day,
+--        COUNT(*) FILTER (WHERE result = 'hit') AS hits,
+--        COUNT(*) FILTER (WHERE result <> 'hit') AS attom_fetches,
+--        ROUND(100.0 * COUNT(*) FILTER (WHERE result = 'hit') / COUNT(*), 1) AS hit_rate
+-- FROM property_lookup_events
+-- GROUP BY 1 ORDER BY 1 DESC;
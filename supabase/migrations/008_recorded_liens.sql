@@ -0,0 +1,19 @@
+-- =====================================================
+-- RECORDED LIENS MIGRATION
+-- =====================================================
+-- Run this SQL in your Supabase project's SQL Editor
+-- atom-property-lookup now reads open loans from ATTOM's
+-- mortgage/owner detail and sales history endpoints.
+-- mortgage_data holds the mortgage/owner payload; the
+-- sales history gets its own column.
+-- =====================================================
+
+ALTER TABLE property_lookups
+  ADD COLUMN IF NOT EXISTS sales_history_data JSONB;
+
+-- Entries cached before this migration hold a second copy of the
+-- basic profile in mortgage_data. Expire them so the next lookup
+-- fetches the real mortgage and sales history.
+UPDATE property_lookups
+  SET fetched_at = '1970-01-01'
+  WHERE sales_history_data IS NULL;
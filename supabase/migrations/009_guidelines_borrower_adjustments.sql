@@ -0,0 +1,70 @@
+-- =====================================================
+-- GUIDELINES WITH BORROWER ADJUSTMENTS MIGRATION
+-- =====================================================
+-- Run this SQL in your Supabase project's SQL Editor
+-- The seeded version 1 predates borrower adjustments,
+-- the HEI cost cap and the leaseback terms, so once it is
+-- loaded the credit, employment and late payment rules
+-- stop applying. This publishes a new version with the
+-- same rules as the built-in defaults (src/lib/productRules.ts).
+-- Safe to re-run: it only publishes while the published
+-- version is missing any of those terms.
+-- =====================================================
+
+DO $$
+DECLARE
+  next_version INTEGER;
+BEGIN
+  -- Nothing to do once the published version has the new terms (or nothing is published and the defaults apply)
+  IF NOT EXISTS (
+    SELECT 1 FROM product_guidelines
+    WHERE status = 'published'
+    AND NOT (
+      rules->'hei' ? 'borrowerAdjustments'
+      AND rules->'hei'->'cashFormula' ? 'costCap'
+      AND rules->'sl' ? 'leasebackTerms'
+    )
+  ) THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(MAX(version), 0) + 1 INTO next_version FROM product_guidelines;
+
+  UPDATE product_guidelines SET status = 'archived' WHERE status = 'published';
+
+  INSERT INTO product_guidelines (version, status, rules, notes, published_at) VALUES
+    (next_version, 'published', '{
+      "hei": {
+        "id": "hei",
+        "name": "HEI",
+        "eligibleStates": ["AZ", "CA", "FL", "HI", "ID", "IN", "KY", "MI", "MO", "MT", "NV", "NH", "NJ", "NM", "NC", "OH", "OR", "PA", "SC", "TN", "UT", "VA", "DC", "WI", "WY"],
+        "ineligiblePropertyTypes": ["Manufactured", "Apartment", "Land"],
+        "ineligibleOwnershipTypes": ["LLC", "Corporation", "Partnership"],
+        "minHomeValue": 175000,
+        "maxHomeValue": 3000000,
+        "maxLTV": 80,
+        "minCashAmount": 15000,
+        "cashFormula": { "type": "equity_share", "maxSharePercentage": 0.499, "exchangeRate": 2.0, "maxAmount": 500000, "costCap": 0.199 },
+        "borrowerAdjustments": [
+          { "id": "credit_below_620", "label": "Credit score below 620", "when": { "creditTiers": ["580_620", "550_580", "below_550"] }, "terms": { "maxLTV": 75 } },
+          { "id": "credit_below_580", "label": "Credit score below 580", "when": { "creditTiers": ["550_580", "below_550"] }, "terms": { "maxLTV": 70 } },
+          { "id": "not_employed", "label": "Not currently employed", "when": { "isEmployed": false }, "terms": { "maxLTV": 75 } },
+          { "id": "late_payments", "label": "Late mortgage payments in the last 12 months", "when": { "hasLatePayments": true }, "excludeProduct": true }
+        ]
+      },
+      "sl": {
+        "id": "sl",
+        "name": "Sale-Leaseback",
+        "eligibleStates": ["AZ", "NV", "CA", "CO", "TX", "GA", "FL", "TN", "OH", "IN", "NC"],
+        "eligiblePropertyTypes": ["Single Family"],
+        "ineligibleOwnershipTypes": ["LLC", "Corporation", "Partnership"],
+        "minHomeValue": 200000,
+        "maxHomeValue": 1500000,
+        "maxLTV": 65,
+        "minCashAmount": 0,
+        "cashFormula": { "type": "percent_of_value", "percentage": 0.70 },
+        "leasebackTerms": { "closingCostPercentage": 0.02, "transferTaxPercentage": 0.01, "capRate": 0.07, "buybackAppreciation": 0.03, "buybackYears": 5 }
+      }
+    }'::jsonb, 'Borrower adjustments, HEI cost cap and leaseback terms', now());
+END;
+$$;
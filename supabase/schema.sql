@@ -66,12 +66,12 @@ CREATE TABLE submissions (
   -- Sale-Leaseback Qualification
   sl_eligible BOOLEAN DEFAULT false,
   sl_offer_amount NUMERIC,
-  sl_ineligibility_reasons TEXT[],
+  sl_ineligibility_reasons JSONB,
   
   -- HEI Qualification  
   hei_eligible BOOLEAN DEFAULT false,
   hei_max_investment NUMERIC,
-  hei_ineligibility_reasons TEXT[],
+  hei_ineligibility_reasons JSONB,
   
   -- Cross-system tracking (links to EquityAdvance)
   equityadvance_deal_id UUID,